@@ -1,9 +1,9 @@
 import { get, post, put, del } from './client.js';
 import { loadConfig } from '../config.js';
-import type { ChatRequestDTO, ChatInfo, ChatMemory } from '../types.js';
+import type { ChatRequestDTO, ChatInfo, ChatMemory, ChatMemoriesPage } from '../types.js';
 
-/** Send chat message — returns SSE stream (raw Response) */
-export async function sendChatStream(token: string, dto: ChatRequestDTO): Promise<Response> {
+/** Send chat message — returns SSE stream (raw Response). Pass `signal` to abort mid-stream. */
+export async function sendChatStream(token: string, dto: ChatRequestDTO, signal?: AbortSignal): Promise<Response> {
   const config = loadConfig();
   const base = config.baseUrl.replace(/\/$/, '');
   const url = `${base}/v1/chat`;
@@ -18,6 +18,7 @@ export async function sendChatStream(token: string, dto: ChatRequestDTO): Promis
       'User-Agent': 'Minara-CLI/1.0',
     },
     body: JSON.stringify(dto),
+    signal,
   });
   return res;
 }
@@ -39,7 +40,7 @@ export function getChat(token: string, chatId: string) {
 
 /** Get chat memories (messages) */
 export function getMemories(token: string, chatId: string, limit?: number, nextCursor?: string) {
-  return get<ChatMemory[]>(`/v1/chat/${encodeURIComponent(chatId)}/memories`, {
+  return get<ChatMemory[] | ChatMemoriesPage>(`/v1/chat/${encodeURIComponent(chatId)}/memories`, {
     token,
     query: { limit, nextCursor },
   });
@@ -4,6 +4,7 @@ import type {
   PerpsWithdrawDto,
   PerpsPlaceOrdersDto,
   PerpsCancelOrdersDto,
+  PerpsModifyOrdersDto,
   UpdateLeverageDto,
   PerpsPosition,
   TokenPrice,
@@ -36,7 +37,7 @@ export function cancelOrders(token: string, dto: PerpsCancelOrdersDto) {
 }
 
 /** Modify existing orders */
-export function modifyOrders(token: string, dto: PerpsCancelOrdersDto) {
+export function modifyOrders(token: string, dto: PerpsModifyOrdersDto) {
   return post<TransactionResult>('/v1/tx/perps/modify-orders', { token, body: dto });
 }
 
@@ -237,15 +238,24 @@ export interface HlOpenOrder {
   side: string;   // 'A' (sell) or 'B' (buy)
   sz: string;
   timestamp: number;
-}
-
-/** Fetch user's open orders from Hyperliquid. */
+  /** 'Limit', 'Stop Market', 'Take Profit Limit', … */
+  orderType?: string;
+  /** 'Gtc' | 'Alo' | 'Ioc' (null for trigger orders) */
+  tif?: string | null;
+  isTrigger?: boolean;
+  triggerPx?: string;
+  triggerCondition?: string;
+  isPositionTpsl?: boolean;
+  reduceOnly?: boolean;
+}
+
+/** Fetch user's open orders (with order type, TIF and trigger details) from Hyperliquid. */
 export async function getOpenOrders(address: string): Promise<HlOpenOrder[]> {
   try {
     const res = await fetch('https://api.hyperliquid.xyz/info', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type: 'openOrders', user: address }),
+      body: JSON.stringify({ type: 'frontendOpenOrders', user: address }),
     });
     const data = await res.json();
     return Array.isArray(data) ? data as HlOpenOrder[] : [];
@@ -288,6 +298,29 @@ export async function getUserFills(address: string, days = 7): Promise<HlFill[]>
   }
 }
 
+type HlPortfolioPeriod = [string, { accountValueHistory?: [number, string][] }];
+
+/**
+ * Fetch a wallet's all-time perps account value history from Hyperliquid
+ * `portfolio` as `[time, value]` points (empty on failure).
+ */
+export async function getPortfolioHistory(address: string): Promise<[number, number][]> {
+  try {
+    const res = await fetch('https://api.hyperliquid.xyz/info', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'portfolio', user: address }),
+    });
+    const data = await res.json();
+    if (!Array.isArray(data)) return [];
+    const periods = new Map(data as HlPortfolioPeriod[]);
+    const history = periods.get('perpAllTime')?.accountValueHistory ?? periods.get('allTime')?.accountValueHistory ?? [];
+    return history.map(([t, v]) => [Number(t), Number(v)]);
+  } catch {
+    return [];
+  }
+}
+
 export interface HlLeverageInfo {
   coin: string;
   leverageType: string;
@@ -0,0 +1,102 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Chat attachments — local images and text files as message content parts
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { readFileSync, statSync } from 'node:fs';
+import { basename, extname, resolve } from 'node:path';
+import type { ChatContentPart } from './types.js';
+
+/** Max size of a single image attachment (bytes). */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+/** Max size of a single text attachment (bytes) — keeps prompts within context. */
+export const MAX_TEXT_BYTES = 256 * 1024;
+
+const TEXT_MIME_BY_EXT: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.json': 'application/json',
+  '.log': 'text/plain',
+};
+
+/**
+ * Detect an attachment's MIME type. Images are identified by magic bytes
+ * (so a mislabelled extension still works); text by extension, falling back
+ * to a binary sniff. Returns undefined for unsupported files.
+ */
+export function detectMime(path: string, buf: Buffer): string | undefined {
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
+    return 'image/jpeg';
+  }
+
+  const byExt = TEXT_MIME_BY_EXT[extname(path).toLowerCase()];
+  if (byExt) return byExt;
+
+  // Unknown extension: accept it as plain text if it has no NUL bytes
+  return buf.subarray(0, 8192).includes(0) ? undefined : 'text/plain';
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Read a local file into a chat content part — base64 for PNG / JPEG,
+ * inlined text (fenced, with the file name) for text / CSV files.
+ * Throws if the file is missing, too large or of an unsupported type.
+ */
+export function loadAttachment(path: string): ChatContentPart {
+  const abs = resolve(path);
+  let size: number;
+  try {
+    const stat = statSync(abs);
+    if (!stat.isFile()) throw new Error('not a file');
+    size = stat.size;
+  } catch {
+    throw new Error(`Attachment not found: ${path}`);
+  }
+
+  // Reject obviously oversized files before reading them into memory
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error(`Attachment too large: ${path} (${formatSize(size)}, max ${formatSize(MAX_IMAGE_BYTES)})`);
+  }
+
+  const buf = readFileSync(abs);
+  const mimeType = detectMime(abs, buf);
+  if (!mimeType) {
+    throw new Error(`Unsupported attachment type: ${path}. Use PNG, JPEG, or a text / CSV file.`);
+  }
+
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image', image: buf.toString('base64'), mimeType };
+  }
+
+  if (size > MAX_TEXT_BYTES) {
+    throw new Error(`Text attachment too large: ${path} (${formatSize(size)}, max ${formatSize(MAX_TEXT_BYTES)})`);
+  }
+  const lang = mimeType === 'text/csv' ? 'csv' : mimeType === 'application/json' ? 'json' : '';
+  const text = buf.toString('utf-8').replace(/\s+$/, '');
+  return {
+    type: 'text',
+    text: `Attached file: ${basename(abs)}\n\`\`\`${lang}\n${text}\n\`\`\``,
+    mimeType,
+  };
+}
+
+/** Combine a prompt with attachments; plain string when there are none. */
+export function buildMessageContent(message: string, attachments: ChatContentPart[]): string | ChatContentPart[] {
+  if (attachments.length === 0) return message;
+  return [{ type: 'text', text: message }, ...attachments];
+}
+
+/** Short description of an attachment for status lines, e.g. `image/png 120 KB`. */
+export function describeAttachment(part: ChatContentPart): string {
+  const bytes = part.type === 'image'
+    ? Math.floor(((part.image?.length ?? 0) * 3) / 4)
+    : Buffer.byteLength(part.text ?? '');
+  return `${part.mimeType ?? part.type} ${formatSize(bytes)}`;
+}
@@ -0,0 +1,176 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Terminal charts & time-series stats (PnL history, equity curves)
+// ═══════════════════════════════════════════════════════════════════════════
+
+import chalk from 'chalk';
+
+const BLOCKS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+export interface SeriesPoint {
+  /** Unix timestamp in milliseconds */
+  time: number;
+  value: number;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────
+
+/** Accept seconds, milliseconds or date strings; returns ms or NaN. */
+export function toMillis(raw: unknown): number {
+  if (typeof raw === 'number') return raw < 1e12 ? raw * 1000 : raw;
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    const n = Number(raw);
+    if (!isNaN(n)) return n < 1e12 ? n * 1000 : n;
+    return Date.parse(raw);
+  }
+  return NaN;
+}
+
+/**
+ * Build a time-sorted series from API rows, taking the time from the first
+ * present key in `timeKeys` and the value from the first in `valueKeys`.
+ * Rows missing either are skipped.
+ */
+export function toSeries(
+  rows: Record<string, unknown>[],
+  timeKeys: string[],
+  valueKeys: string[],
+): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+  for (const row of rows) {
+    const t = timeKeys.map((k) => row[k]).find((v) => v !== undefined && v !== null);
+    const v = valueKeys.map((k) => row[k]).find((v) => v !== undefined && v !== null && v !== '');
+    const time = toMillis(t);
+    const value = Number(v);
+    if (isNaN(time) || v === undefined || isNaN(value)) continue;
+    points.push({ time, value });
+  }
+  return points.sort((a, b) => a.time - b.time);
+}
+
+// ─── Stats ───────────────────────────────────────────────────────────────
+
+/**
+ * Largest peak-to-trough decline. `percent` is relative to the peak and is
+ * 0 when the peak is not positive (e.g. a cumulative-PnL curve below zero).
+ */
+export function maxDrawdown(values: number[]): { amount: number; percent: number } {
+  let peak = -Infinity;
+  let amount = 0;
+  let percent = 0;
+  for (const v of values) {
+    if (v > peak) peak = v;
+    const dd = peak - v;
+    if (dd > amount) {
+      amount = dd;
+      percent = peak > 0 ? (dd / peak) * 100 : 0;
+    }
+  }
+  return { amount, percent };
+}
+
+/** Collapse a time-sorted series to `[YYYY-MM-DD, close]` per UTC day. */
+function dailyCloses(points: SeriesPoint[]): [string, number][] {
+  const closes = new Map<string, number>();
+  for (const p of points) closes.set(new Date(p.time).toISOString().slice(0, 10), p.value);
+  return [...closes.entries()];
+}
+
+/** Diff consecutive daily closing values. */
+export function dailyChanges(points: SeriesPoint[]): { date: string; change: number }[] {
+  const days = dailyCloses(points);
+  const changes: { date: string; change: number }[] = [];
+  for (let i = 1; i < days.length; i++) {
+    changes.push({ date: days[i][0], change: days[i][1] - days[i - 1][1] });
+  }
+  return changes;
+}
+
+/**
+ * Annualised Sharpe-like ratio of daily returns (risk-free rate = 0,
+ * 365 trading days). Returns null with fewer than two returns or no variance.
+ */
+export function sharpeRatio(points: SeriesPoint[]): number | null {
+  const days = dailyCloses(points);
+  const returns: number[] = [];
+  for (let i = 1; i < days.length; i++) {
+    const prev = days[i - 1][1];
+    if (prev > 0) returns.push((days[i][1] - prev) / prev);
+  }
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std === 0 ? null : (mean / std) * Math.sqrt(365);
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────
+
+/** Evenly resample `values` to at most `width` points (keeps first & last). */
+function resample(values: number[], width: number): number[] {
+  if (values.length <= width) return values;
+  const out: number[] = [];
+  for (let i = 0; i < width; i++) {
+    out.push(values[Math.round((i * (values.length - 1)) / (width - 1))]);
+  }
+  return out;
+}
+
+/** One-line sparkline, e.g. ▁▂▄▇█▆▃ */
+export function sparkline(values: number[], width = 40): string {
+  const vals = resample(values, width);
+  if (vals.length === 0) return '';
+  const min = Math.min(...vals);
+  const range = Math.max(...vals) - min;
+  return vals
+    .map((v) => BLOCKS[range === 0 ? 3 : Math.round(((v - min) / range) * (BLOCKS.length - 1))])
+    .join('');
+}
+
+/**
+ * Multi-row area chart with min/max labels on the y-axis and the first/last
+ * dates underneath. Coloured green if the series ended higher than it
+ * started, red otherwise.
+ */
+export function areaChart(
+  points: SeriesPoint[],
+  opts: { height?: number; width?: number; formatY?: (n: number) => string } = {},
+): string[] {
+  const height = opts.height ?? 8;
+  const vals = resample(points.map((p) => p.value), opts.width ?? 60);
+  if (vals.length === 0) return [];
+
+  const min = Math.min(...vals);
+  const max = Math.max(...vals);
+  const range = max - min;
+  const steps = height * BLOCKS.length;
+  // Flat series render as a half-height band so they stay visible
+  const levels = vals.map((v) => (range === 0 ? steps / 2 : Math.max(1, Math.round(((v - min) / range) * steps))));
+
+  const fmtY = opts.formatY ?? ((n: number) => n.toFixed(2));
+  const top = fmtY(max);
+  const bottom = fmtY(min);
+  const labelWidth = Math.max(top.length, bottom.length);
+  const color = vals[vals.length - 1] >= vals[0] ? chalk.green : chalk.red;
+
+  const lines: string[] = [];
+  for (let row = height - 1; row >= 0; row--) {
+    const cells = levels.map((lvl) => {
+      const fill = Math.min(BLOCKS.length, lvl - row * BLOCKS.length);
+      return fill <= 0 ? ' ' : BLOCKS[fill - 1];
+    });
+    const label = row === height - 1 ? top : row === 0 ? bottom : '';
+    lines.push(`${chalk.dim(label.padStart(labelWidth))} ${chalk.dim('┤')}${color(cells.join(''))}`);
+  }
+
+  const first = shortDate(points[0].time);
+  const last = shortDate(points[points.length - 1].time);
+  const gap = Math.max(1, vals.length - first.length - last.length);
+  lines.push(chalk.dim(`${' '.repeat(labelWidth + 2)}${first}${' '.repeat(gap)}${last}`));
+  return lines;
+}
+
+/** `MMM D` label for chart axes and stats. */
+export function shortDate(ms: number): string {
+  return new Date(ms).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
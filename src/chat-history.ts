@@ -0,0 +1,236 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Chat history — paged memory fetching, thread ordering and export formats
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { getMemories } from './api/chat.js';
+import { warnStderr } from './utils.js';
+import type { ChatMemory, ChatMemoriesPage } from './types.js';
+
+/** Page size used when walking `nextCursor`. */
+const PAGE_SIZE = 100;
+/** Safety cap so a runaway cursor can't loop forever. */
+const MAX_PAGES = 100;
+
+/** Split a `getMemories` response into messages and the next cursor. */
+export function extractMemoryPage(raw: unknown): { memories: ChatMemory[]; nextCursor?: string } {
+  if (Array.isArray(raw)) return { memories: raw as ChatMemory[] };
+  if (!raw || typeof raw !== 'object') return { memories: [] };
+  const page = raw as ChatMemoriesPage & { data?: unknown; items?: unknown };
+  const list = page.memories ?? page.list ?? page.items ?? page.data;
+  return {
+    memories: Array.isArray(list) ? (list as ChatMemory[]) : [],
+    nextCursor: page.nextCursor ? String(page.nextCursor) : undefined,
+  };
+}
+
+/**
+ * Fetch every message in a chat by following `nextCursor`. Throws on API
+ * errors so callers in the REPL can recover; warns (stderr) when the page cap
+ * cuts the chat short.
+ */
+export async function fetchAllMemories(token: string, chatId: string): Promise<ChatMemory[]> {
+  const all: ChatMemory[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  for (let n = 0; n < MAX_PAGES; n++) {
+    const res = await getMemories(token, chatId, PAGE_SIZE, cursor);
+    if (!res.success) throw new Error(`Failed to load chat history: ${res.error?.message ?? 'Unknown error'}`);
+    const { memories, nextCursor } = extractMemoryPage(res.data);
+    for (const m of memories) {
+      // Pages can overlap at the cursor boundary
+      if (m.id && seen.has(m.id)) continue;
+      if (m.id) seen.add(m.id);
+      all.push(m);
+    }
+    if (!nextCursor || nextCursor === cursor || memories.length === 0) return all;
+    cursor = nextCursor;
+  }
+  warnStderr(`Chat has more than ${MAX_PAGES * PAGE_SIZE} messages; only the first ${all.length} were loaded.`);
+  return all;
+}
+
+// ─── Thread order ────────────────────────────────────────────────────────
+
+export interface ThreadEntry {
+  memory: ChatMemory;
+  /** Nesting level of alternative branches (0 = first version). */
+  depth: number;
+  /** 1-based position among sibling versions, and how many there are. */
+  version: number;
+  versions: number;
+}
+
+function byTime(a: ChatMemory, b: ChatMemory): number {
+  return (Date.parse(a.createdAt) || 0) - (Date.parse(b.createdAt) || 0);
+}
+
+/** Children keyed by parent ID; roots (no parent, or parent not loaded) under ''. */
+function childrenByParent(memories: ChatMemory[]): Map<string, ChatMemory[]> {
+  const ids = new Set(memories.map((m) => m.id));
+  const hasTree = memories.some((m) => m.parentMessageId);
+  const children = new Map<string, ChatMemory[]>();
+  const sorted = [...memories].sort(byTime);
+  let prev = '';
+  for (const m of sorted) {
+    // Servers without parent links: treat the list as one linear thread
+    const parent = hasTree
+      ? (m.parentMessageId && ids.has(m.parentMessageId) ? m.parentMessageId : '')
+      : prev;
+    const list = children.get(parent) ?? [];
+    list.push(m);
+    children.set(parent, list);
+    prev = m.id;
+  }
+  return children;
+}
+
+/**
+ * Order messages as a tree walk via `parentMessageId`: each reply follows
+ * its parent, and edited / regenerated versions follow in creation order.
+ */
+export function orderThread(memories: ChatMemory[]): ThreadEntry[] {
+  const children = childrenByParent(memories);
+  const out: ThreadEntry[] = [];
+  const visited = new Set<string>();
+
+  const walk = (parent: string, depth: number): void => {
+    const kids = children.get(parent) ?? [];
+    kids.forEach((m, i) => {
+      if (visited.has(m.id)) return;
+      visited.add(m.id);
+      const d = depth + (i > 0 ? 1 : 0);
+      out.push({ memory: m, depth: d, version: i + 1, versions: kids.length });
+      walk(m.id, d);
+    });
+  };
+  walk('', 0);
+  return out;
+}
+
+/**
+ * The current conversation path: from the root, follow the newest reply at
+ * each step, so edited or regenerated messages replace their older versions.
+ * `versions > 1` marks where alternatives were skipped.
+ */
+export function activeBranch(memories: ChatMemory[]): ThreadEntry[] {
+  const children = childrenByParent(memories);
+  const out: ThreadEntry[] = [];
+  const visited = new Set<string>();
+  let kids = children.get('') ?? [];
+  while (kids.length > 0) {
+    const m = kids[kids.length - 1];
+    if (visited.has(m.id)) break;
+    visited.add(m.id);
+    out.push({ memory: m, depth: 0, version: kids.length, versions: kids.length });
+    kids = children.get(m.id) ?? [];
+  }
+  return out;
+}
+
+// ─── Content ─────────────────────────────────────────────────────────────
+
+/** Plain-text view of a memory's content (string, parts array or object). */
+export function memoryText(content: ChatMemory['content'] | unknown[]): string {
+  if (typeof content === 'string') return content;
+  const parts = Array.isArray(content) ? content : (content as Record<string, unknown>)?.parts ?? [content];
+  if (!Array.isArray(parts)) return JSON.stringify(content);
+  return parts
+    .map((p) => {
+      if (typeof p === 'string') return p;
+      if (!p || typeof p !== 'object') return '';
+      const o = p as Record<string, unknown>;
+      if (o.type === 'image') return '[image]';
+      if (typeof o.text === 'string') return o.text;
+      if (typeof o.content === 'string') return o.content;
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n') || JSON.stringify(content);
+}
+
+// ─── Export formats ──────────────────────────────────────────────────────
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export interface ChatExport {
+  chatId: string;
+  name?: string;
+  exportedAt: string;
+  messages: ThreadEntry[];
+}
+
+function roleLabel(m: ChatMemory): string {
+  return m.role === 'user' ? 'You' : 'Minara';
+}
+
+function versionLabel(e: ThreadEntry): string {
+  return e.versions > 1 ? ` (version ${e.version}/${e.versions})` : '';
+}
+
+export function toMarkdown(doc: ChatExport): string {
+  const lines = [`# ${doc.name ?? 'Minara chat'}`, '', `Chat ID: \`${doc.chatId}\`  `, `Exported: ${doc.exportedAt}`, ''];
+  for (const e of doc.messages) {
+    const quote = '> '.repeat(e.depth);
+    lines.push('---', '', `${quote}**${roleLabel(e.memory)}** · ${e.memory.createdAt}${versionLabel(e)}`, '');
+    for (const line of memoryText(e.memory.content).split('\n')) lines.push(`${quote}${line}`.trimEnd());
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export function toJson(doc: ChatExport): string {
+  return JSON.stringify({
+    chatId: doc.chatId,
+    name: doc.name,
+    exportedAt: doc.exportedAt,
+    messages: doc.messages.map((e) => ({
+      id: e.memory.id,
+      parentMessageId: e.memory.parentMessageId ?? null,
+      role: e.memory.role,
+      createdAt: e.memory.createdAt,
+      ...(e.versions > 1 ? { version: e.version, versions: e.versions } : {}),
+      content: e.memory.content,
+    })),
+  }, null, 2) + '\n';
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function toHtml(doc: ChatExport): string {
+  const title = escapeHtml(doc.name ?? 'Minara chat');
+  const messages = doc.messages.map((e) => `  <section class="msg ${escapeHtml(e.memory.role)}" style="margin-left:${e.depth * 24}px">
+    <header><strong>${roleLabel(e.memory)}</strong> <time datetime="${escapeHtml(e.memory.createdAt)}">${escapeHtml(e.memory.createdAt)}</time>${escapeHtml(versionLabel(e))}</header>
+    <div class="body">${escapeHtml(memoryText(e.memory.content))}</div>
+  </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, system-ui, sans-serif; max-width: 820px; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; }
+  .meta { color: #666; font-size: 0.9em; }
+  .msg { border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .msg.user { background: #eef4ff; }
+  .msg.assistant { background: #f3f7f2; }
+  .msg header { font-size: 0.85em; color: #555; margin-bottom: 0.4rem; }
+  .body { white-space: pre-wrap; line-height: 1.5; }
+</style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="meta">Chat ID: ${escapeHtml(doc.chatId)} · Exported ${escapeHtml(doc.exportedAt)}</p>
+${messages}
+</body>
+</html>
+`;
+}
+
+export function renderExport(doc: ChatExport, format: ExportFormat): string {
+  if (format === 'json') return toJson(doc);
+  if (format === 'html') return toHtml(doc);
+  return toMarkdown(doc);
+}
@@ -0,0 +1,187 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Chat input — REPL history, multiline prompts and piped stdin
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { existsSync, readFileSync, writeFileSync, unlinkSync, fstatSync } from 'node:fs';
+import { join } from 'node:path';
+import { getMinaraDir, loadConfig } from './config.js';
+import { MAX_TEXT_BYTES } from './attachments.js';
+
+/** Max entries kept in `~/.minara/chat_history` (oldest are dropped). */
+export const CHAT_HISTORY_MAX = 500;
+
+/** Opens / closes a multiline block in the REPL. */
+export const MULTILINE_FENCE = '"""';
+
+export function chatHistoryPath(): string {
+  return join(getMinaraDir(), 'chat_history');
+}
+
+/** History is on unless disabled via `minara config` (privacy opt-out). */
+export function isChatHistoryEnabled(): boolean {
+  return loadConfig().chatHistory !== false;
+}
+
+/**
+ * Read saved prompts, oldest first. Each line is a JSON string so
+ * multiline prompts survive the round trip.
+ */
+function readEntries(): string[] {
+  const path = chatHistoryPath();
+  if (!existsSync(path)) return [];
+  try {
+    return readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          const v = JSON.parse(line);
+          return typeof v === 'string' ? v : '';
+        } catch {
+          return line;
+        }
+      })
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/** Saved prompts for readline's `history` option (newest first, one line each). */
+export function loadChatHistory(): string[] {
+  if (!isChatHistoryEnabled()) return [];
+  return readEntries()
+    .map((e) => e.replace(/\s*\n\s*/g, ' '))
+    .reverse();
+}
+
+/** Append a prompt, skipping immediate repeats and trimming to the cap. */
+export function appendChatHistory(entry: string): void {
+  const text = entry.trim();
+  if (!text || !isChatHistoryEnabled()) return;
+  const entries = readEntries();
+  if (entries[entries.length - 1] === text) return;
+  entries.push(text);
+  try {
+    writeFileSync(
+      chatHistoryPath(),
+      entries.slice(-CHAT_HISTORY_MAX).map((e) => JSON.stringify(e)).join('\n') + '\n',
+      { encoding: 'utf-8', mode: 0o600 },
+    );
+  } catch {
+    // History is a convenience — never fail the chat over it
+  }
+}
+
+export function clearChatHistory(): void {
+  const path = chatHistoryPath();
+  if (existsSync(path)) unlinkSync(path);
+}
+
+// ─── Piped input ─────────────────────────────────────────────────────────
+
+/**
+ * Read stdin when it's piped (`cat notes.txt | minara ask …`). Only a pipe
+ * or redirected file is read, unless `explicit` (message `-`), so an open
+ * stdin that never sends EOF (CI runners, `ssh -T`) can't hang the command.
+ * Returns undefined on an interactive terminal or when nothing was piped.
+ */
+export async function readPipedInput(explicit = false): Promise<string | undefined> {
+  if (!explicit) {
+    if (process.stdin.isTTY) return undefined;
+    try {
+      const stat = fstatSync(0);
+      if (!stat.isFIFO() && !stat.isFile()) return undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of process.stdin) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+    size += buf.length;
+    if (size > MAX_TEXT_BYTES) {
+      throw new Error(`Piped input too large (max ${Math.round(MAX_TEXT_BYTES / 1024)} KB).`);
+    }
+    chunks.push(buf);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  return text || undefined;
+}
+
+// ─── Multiline ───────────────────────────────────────────────────────────
+
+export interface LineAssembler {
+  /**
+   * Feed a submitted line. Returns the complete message once it's ready,
+   * or null while a multiline block is still open.
+   */
+  push(line: string): string | null;
+  /** Keep a line without submitting (Alt+Enter, or a newline inside a paste). */
+  hold(line: string): void;
+  /** Drop any partial message (e.g. on Ctrl+C). */
+  reset(): void;
+  /** True while lines are buffered, i.e. the next prompt is a continuation. */
+  readonly pending: boolean;
+}
+
+/**
+ * Collects REPL input lines into messages. A line starting with `"""` opens
+ * a block that runs until a line ending with `"""`; lines held via
+ * {@link LineAssembler.hold} are joined with the next submitted line.
+ */
+export function createLineAssembler(): LineAssembler {
+  let buffer: string[] = [];
+  let inFence = false;
+
+  const take = (): string => {
+    const text = buffer.join('\n');
+    buffer = [];
+    inFence = false;
+    return text;
+  };
+
+  return {
+    get pending() { return inFence || buffer.length > 0; },
+
+    push(line) {
+      if (inFence) {
+        const end = line.trimEnd();
+        if (!end.endsWith(MULTILINE_FENCE)) {
+          buffer.push(line);
+          return null;
+        }
+        const last = end.slice(0, -MULTILINE_FENCE.length);
+        if (last.trim()) buffer.push(last);
+        return take();
+      }
+
+      const start = line.trimStart();
+      if (start.startsWith(MULTILINE_FENCE)) {
+        const rest = start.slice(MULTILINE_FENCE.length);
+        // One-line """text""" needs no block
+        if (rest.trimEnd().endsWith(MULTILINE_FENCE) && rest.trim().length >= MULTILINE_FENCE.length) {
+          buffer.push(rest.trimEnd().slice(0, -MULTILINE_FENCE.length));
+          return take();
+        }
+        inFence = true;
+        if (rest.trim()) buffer.push(rest);
+        return null;
+      }
+
+      if (buffer.length === 0) return line;
+      buffer.push(line);
+      return take();
+    },
+
+    hold(line) {
+      buffer.push(line);
+    },
+
+    reset() {
+      buffer = [];
+      inFence = false;
+    },
+  };
+}
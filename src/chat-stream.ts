@@ -0,0 +1,366 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Chat streams — parse AI SDK stream parts and render them in the terminal
+// ═══════════════════════════════════════════════════════════════════════════
+
+import chalk from 'chalk';
+import { formatTable } from './formatters.js';
+import { createMarkdownStream } from './markdown.js';
+
+/** A typed part of a streamed chat reply. */
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'tool-call'; toolCallId?: string; toolName: string; args?: unknown }
+  | { type: 'tool-result'; toolCallId?: string; toolName?: string; result: unknown }
+  | { type: 'data'; name?: string; data: unknown }
+  | { type: 'error'; message: string };
+
+/** Stream metadata collected while parsing (e.g. the server-side message ID). */
+export interface StreamMeta {
+  messageId?: string;
+}
+
+function tryJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function textOf(parsed: unknown): string | undefined {
+  if (typeof parsed === 'string') return parsed;
+  if (!parsed || typeof parsed !== 'object') return undefined;
+  const o = parsed as Record<string, unknown>;
+  const text = o.text ?? o.content ?? o.delta;
+  return typeof text === 'string' ? text : undefined;
+}
+
+/**
+ * AI SDK data-stream frame: `<code>:<json>`, e.g. `0:"Hi"` (text),
+ * `g:"…"` (reasoning), `9:{…}` (tool call), `a:{…}` (tool result),
+ * `2:[…]` (data parts), `3:"…"` (error), `f:{messageId}` (step start).
+ */
+function parseDataStreamFrame(code: string, raw: string, meta: StreamMeta): StreamEvent[] {
+  const parsed = tryJson(raw);
+  switch (code) {
+    case '0': {
+      const text = parsed === undefined ? raw : textOf(parsed);
+      return text ? [{ type: 'text', text }] : [];
+    }
+    case 'g': {
+      const text = parsed === undefined ? raw : textOf(parsed);
+      return text ? [{ type: 'reasoning', text }] : [];
+    }
+    case '9': {
+      const o = (parsed ?? {}) as Record<string, unknown>;
+      if (!o.toolName) return [];
+      return [{ type: 'tool-call', toolCallId: o.toolCallId as string | undefined, toolName: String(o.toolName), args: o.args }];
+    }
+    case 'a': {
+      const o = (parsed ?? {}) as Record<string, unknown>;
+      return [{ type: 'tool-result', toolCallId: o.toolCallId as string | undefined, result: o.result }];
+    }
+    case '2':
+      return (Array.isArray(parsed) ? parsed : [parsed])
+        .filter((d) => d !== undefined && d !== null)
+        .map((data) => ({ type: 'data', data }));
+    case '3':
+      return [{ type: 'error', message: typeof parsed === 'string' ? parsed : raw }];
+    case 'f': {
+      const o = parsed as Record<string, unknown> | undefined;
+      if (o?.messageId) meta.messageId = String(o.messageId);
+      return [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * SSE `data:` payload — either a UI message stream part
+ * (`{"type":"text-delta","delta":"…"}`, `reasoning-delta`,
+ * `tool-input-available`, `tool-output-available`, `data-<name>`, …)
+ * or an OpenAI-style / plain text chunk.
+ */
+function parseSsePayload(raw: string, meta: StreamMeta): StreamEvent[] {
+  const parsed = tryJson(raw);
+  if (parsed === undefined) return raw ? [{ type: 'text', text: raw }] : [];
+  if (typeof parsed === 'string') return parsed ? [{ type: 'text', text: parsed }] : [];
+  if (!parsed || typeof parsed !== 'object') return [];
+
+  const o = parsed as Record<string, unknown>;
+  if (o.messageId) meta.messageId = String(o.messageId);
+  const type = typeof o.type === 'string' ? o.type : '';
+
+  if (type === 'text-delta' || type === 'text') {
+    const text = textOf(o);
+    return text ? [{ type: 'text', text }] : [];
+  }
+  if (type === 'reasoning-delta' || type === 'reasoning') {
+    const text = textOf(o);
+    return text ? [{ type: 'reasoning', text }] : [];
+  }
+  if (type === 'tool-input-available' || type === 'tool-call') {
+    if (!o.toolName) return [];
+    return [{
+      type: 'tool-call',
+      toolCallId: o.toolCallId as string | undefined,
+      toolName: String(o.toolName),
+      args: o.input ?? o.args,
+    }];
+  }
+  if (type === 'tool-output-available' || type === 'tool-result') {
+    return [{
+      type: 'tool-result',
+      toolCallId: o.toolCallId as string | undefined,
+      toolName: o.toolName as string | undefined,
+      result: o.output ?? o.result,
+    }];
+  }
+  if (type.startsWith('data-')) {
+    return [{ type: 'data', name: type.slice(5), data: o.data }];
+  }
+  if (type === 'error') {
+    return [{ type: 'error', message: String(o.errorText ?? o.error ?? o.message ?? 'Stream error') }];
+  }
+  // Other lifecycle parts (start, finish, *-start, *-end, …) carry no content
+  if (type) return [];
+
+  const choices = o.choices as { delta?: { content?: string } }[] | undefined;
+  const data = o.data as Record<string, unknown> | undefined;
+  const text = choices?.[0]?.delta?.content ?? textOf(o) ?? (typeof data?.text === 'string' ? data.text : undefined);
+  return text ? [{ type: 'text', text }] : [];
+}
+
+/**
+ * Parse one line of a chat stream. Returns `null` at the end-of-stream
+ * marker (`data: [DONE]`). Fills `meta` as metadata frames arrive.
+ */
+export function parseStreamLine(line: string, meta: StreamMeta = {}): StreamEvent[] | null {
+  if (!line) return [];
+
+  // Standard SSE format: "data: json" — checked first, since it also contains a colon
+  if (line.startsWith('data:')) {
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') return null;
+    return parseSsePayload(data, meta);
+  }
+
+  // AI SDK data-stream format: "type:value"
+  const colonIndex = line.indexOf(':');
+  if (colonIndex === -1) return [];
+  return parseDataStreamFrame(line.slice(0, colonIndex), line.slice(colonIndex + 1), meta);
+}
+
+/** Parse a streamed chat response into typed events. */
+export async function* parseSSE(response: Response, meta: StreamMeta = {}): AsyncGenerator<StreamEvent> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const events = parseStreamLine(line.replace(/\r$/, ''), meta);
+        if (events === null) return;
+        yield* events;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────
+
+/** Pull tabular rows out of a chart / table data part, if it has any. */
+export function extractTableRows(data: unknown): Record<string, unknown>[] | null {
+  const isRowList = (v: unknown): v is Record<string, unknown>[] =>
+    Array.isArray(v) && v.length > 0 && v.every((r) => r && typeof r === 'object' && !Array.isArray(r));
+
+  if (isRowList(data)) return data;
+  if (!data || typeof data !== 'object') return null;
+  const o = data as Record<string, unknown>;
+
+  // { columns: ['a','b'], rows: [[1,2], …] }
+  if (Array.isArray(o.columns) && Array.isArray(o.rows) && o.rows.every(Array.isArray)) {
+    const cols = (o.columns as unknown[]).map((c) =>
+      String(c && typeof c === 'object' ? (c as Record<string, unknown>).key ?? (c as Record<string, unknown>).label : c));
+    return (o.rows as unknown[][]).map((r) => Object.fromEntries(cols.map((c, i) => [c, r[i]])));
+  }
+
+  // Chart.js style: { labels: [...], datasets: [{ label, data: [...] }] }
+  if (Array.isArray(o.labels) && Array.isArray(o.datasets)) {
+    const sets = o.datasets as { label?: string; data?: unknown[] }[];
+    return (o.labels as unknown[]).map((label, i) => {
+      const row: Record<string, unknown> = { label };
+      sets.forEach((s, j) => { row[s.label ?? `series${j + 1}`] = s.data?.[i]; });
+      return row;
+    });
+  }
+
+  for (const key of ['rows', 'data', 'items', 'points', 'series']) {
+    if (isRowList(o[key])) return o[key] as Record<string, unknown>[];
+  }
+  // Nested payloads, e.g. { type: 'chart', chart: { … } }
+  for (const key of ['table', 'chart']) {
+    if (o[key] && typeof o[key] === 'object') return extractTableRows(o[key]);
+  }
+  return null;
+}
+
+function summarizeArgs(args: unknown): string {
+  if (args === undefined || args === null) return '';
+  if (typeof args !== 'object') return String(args);
+  const parts = Object.entries(args as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && v !== null && typeof v !== 'object')
+    .map(([k, v]) => `${k}=${String(v)}`);
+  const s = parts.join(' ');
+  return s.length > 60 ? s.slice(0, 59) + '…' : s;
+}
+
+export interface StreamRendererOptions {
+  /** Print reasoning as it streams (default) or collapse it to a summary line. */
+  showThinking?: boolean;
+  /** Format answer text as markdown (headings, lists, tables, code blocks). */
+  markdown?: boolean;
+  write?: (s: string) => void;
+}
+
+export interface StreamRenderer {
+  render(event: StreamEvent): void;
+  /** Close any open block. Call once the stream ends (or is interrupted). */
+  finish(): void;
+  /** Whether any visible content was rendered. */
+  readonly hasContent: boolean;
+  /** Full reasoning text of this reply, for re-displaying a collapsed block. */
+  readonly reasoning: string;
+}
+
+/**
+ * Stateful renderer for one streamed reply: answer text is written as-is
+ * or markdown-formatted, reasoning as a dimmed `│`-gutter block (or a
+ * one-line summary when collapsed), tool calls as status lines, and
+ * chart / table data as tables.
+ */
+export function createStreamRenderer(opts: StreamRendererOptions = {}): StreamRenderer {
+  const write = opts.write ?? ((s: string) => { process.stdout.write(s); });
+  const showThinking = opts.showThinking ?? true;
+  const toolNames = new Map<string, string>();
+  let reasoning = '';
+  let inReasoning = false;
+  let atLineStart = false;
+  let hasContent = false;
+
+  const out = (s: string) => {
+    if (!s) return;
+    write(s);
+    atLineStart = s.endsWith('\n');
+  };
+  const newline = () => { if (!atLineStart) out('\n'); };
+  const md = opts.markdown ? createMarkdownStream(out) : null;
+
+  /** End the current block: flush buffered markdown or close the thinking box. */
+  function closeBlock(): void {
+    md?.flush();
+    closeReasoning();
+  }
+
+  function closeReasoning(): void {
+    if (!inReasoning) return;
+    inReasoning = false;
+    newline();
+    if (!showThinking) {
+      const words = reasoning.trim().split(/\s+/).filter(Boolean).length;
+      out(chalk.dim(`▸ Thought for ${words} word${words === 1 ? '' : 's'} (/thoughts to expand)\n`));
+    } else {
+      out(chalk.dim('└\n'));
+    }
+  }
+
+  function statusLine(line: string): void {
+    closeBlock();
+    newline();
+    out(`${line}\n`);
+    hasContent = true;
+  }
+
+  return {
+    get hasContent() { return hasContent; },
+    get reasoning() { return reasoning; },
+
+    render(event) {
+      switch (event.type) {
+        case 'text':
+          // Only the reasoning → text transition ends a block; flushing on
+          // every chunk would break lines and tables split across tokens
+          closeReasoning();
+          if (md) md.push(event.text);
+          else out(event.text);
+          if (event.text) hasContent = true;
+          return;
+
+        case 'reasoning':
+          if (!inReasoning) {
+            md?.flush();
+            inReasoning = true;
+            if (reasoning) reasoning += '\n';
+            if (showThinking) {
+              newline();
+              out(chalk.dim('┌ Thinking\n│ '));
+            }
+          }
+          reasoning += event.text;
+          if (showThinking) out(chalk.dim(event.text.replace(/\n/g, '\n│ ')));
+          hasContent = true;
+          return;
+
+        case 'tool-call': {
+          if (event.toolCallId) toolNames.set(event.toolCallId, event.toolName);
+          const args = summarizeArgs(event.args);
+          statusLine(chalk.cyan(`⚙ ${event.toolName}`) + (args ? chalk.dim(` ${args}`) : ''));
+          return;
+        }
+
+        case 'tool-result': {
+          const name = event.toolName ?? (event.toolCallId ? toolNames.get(event.toolCallId) : undefined) ?? 'tool';
+          statusLine(chalk.dim(`✔ ${name} done`));
+          return;
+        }
+
+        case 'data': {
+          const rows = extractTableRows(event.data);
+          const table = rows ? formatTable(rows) : null;
+          if (!table) return;
+          closeBlock();
+          newline();
+          const title = event.data && typeof event.data === 'object' && !Array.isArray(event.data)
+            ? (event.data as Record<string, unknown>).title
+            : undefined;
+          if (typeof title === 'string') out(chalk.bold(`${title}\n`));
+          out(`${table}\n`);
+          hasContent = true;
+          return;
+        }
+
+        case 'error':
+          statusLine(chalk.red(`✖ ${event.message}`));
+          return;
+      }
+    },
+
+    finish() {
+      md?.end();
+      closeBlock();
+    },
+  };
+}
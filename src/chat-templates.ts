@@ -0,0 +1,100 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Chat templates — saved prompts with {{placeholder}} substitution
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync, unlinkSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { getMinaraDir } from './config.js';
+
+export interface ChatTemplate {
+  name: string;
+  prompt: string;
+  description?: string;
+  /** Run in quality mode by default (like `research`). */
+  quality?: boolean;
+  /** Enable thinking mode by default. */
+  thinking?: boolean;
+  createdAt?: string;
+}
+
+const NAME_RE = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+export function templatesDir(): string {
+  const dir = join(getMinaraDir(), 'templates');
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+  return dir;
+}
+
+function templatePath(name: string): string {
+  if (!NAME_RE.test(name)) {
+    throw new Error(`Invalid template name "${name}". Use letters, numbers, - and _ (max 50).`);
+  }
+  return join(templatesDir(), `${name.toLowerCase()}.json`);
+}
+
+export function templateExists(name: string): boolean {
+  return existsSync(templatePath(name));
+}
+
+export function saveTemplate(template: ChatTemplate): void {
+  if (!template.prompt.trim()) throw new Error('Template prompt cannot be empty.');
+  const path = templatePath(template.name);
+  writeFileSync(path, JSON.stringify({ ...template, createdAt: template.createdAt ?? new Date().toISOString() }, null, 2) + '\n', {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+}
+
+export function loadTemplate(name: string): ChatTemplate {
+  const path = templatePath(name);
+  if (!existsSync(path)) throw new Error(`Template not found: ${name}. See: minara chat template list`);
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as ChatTemplate;
+    if (typeof parsed.prompt !== 'string') throw new Error('missing prompt');
+    return { ...parsed, name: parsed.name ?? name };
+  } catch {
+    throw new Error(`Template ${name} is corrupted (${path}).`);
+  }
+}
+
+/** All readable templates, sorted by name. Corrupted files are skipped. */
+export function listTemplates(): ChatTemplate[] {
+  const dir = templatesDir();
+  const templates: ChatTemplate[] = [];
+  for (const file of readdirSync(dir).filter((f) => f.endsWith('.json')).sort()) {
+    try {
+      templates.push(loadTemplate(file.slice(0, -'.json'.length)));
+    } catch {
+      // Skip files that aren't valid templates
+    }
+  }
+  return templates;
+}
+
+export function deleteTemplate(name: string): void {
+  const path = templatePath(name);
+  if (!existsSync(path)) throw new Error(`Template not found: ${name}`);
+  unlinkSync(path);
+}
+
+/** Remove every saved template (account deletion). */
+export function clearTemplates(): void {
+  rmSync(join(getMinaraDir(), 'templates'), { recursive: true, force: true });
+}
+
+/** Placeholder names in order of first appearance, e.g. `['token', 'chain']`. */
+export function templatePlaceholders(prompt: string): string[] {
+  const names: string[] = [];
+  for (const m of prompt.matchAll(PLACEHOLDER_RE)) {
+    if (!names.includes(m[1])) names.push(m[1]);
+  }
+  return names;
+}
+
+/** Substitute `{{name}}` placeholders. Throws if any value is missing. */
+export function fillTemplate(prompt: string, values: Record<string, string | undefined>): string {
+  const missing = templatePlaceholders(prompt).filter((n) => !values[n]?.trim());
+  if (missing.length > 0) throw new Error(`Missing value for ${missing.map((n) => `{{${n}}}`).join(', ')}`);
+  return prompt.replace(PLACEHOLDER_RE, (_, name: string) => values[name]!.trim());
+}
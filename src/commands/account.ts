@@ -1,8 +1,20 @@
 import { Command } from 'commander';
+import { input } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { getCurrentUser } from '../api/auth.js';
-import { requireAuth } from '../config.js';
-import { spinner, unwrapApi, wrapAction } from '../utils.js';
+import { getCurrentUser, getInviteHistory, deleteAccount } from '../api/auth.js';
+import { get } from '../api/client.js';
+import * as perpsApi from '../api/perps.js';
+import { listLimitOrders } from '../api/limitorder.js';
+import { requireAuth, clearCredentials, clearConfig } from '../config.js';
+import { clearChatHistory } from '../chat-input.js';
+import { clearTemplates } from '../chat-templates.js';
+import { requireTouchId } from '../touchid.js';
+import { success, warn, spinner, unwrapApi, assertApiOk, wrapAction } from '../utils.js';
+import { printTable, printKV, isRawJson, formatLabel, formatValue } from '../formatters.js';
+import type { ColumnDef } from '../formatters.js';
+import {
+  fetchSubAccounts, getSubAccountId, normalizeWalletSummary, parseStrategies, strategyToState,
+} from './perps.js';
 
 // Wallets to show by default (user-facing addresses)
 const DEFAULT_WALLETS = new Set([
@@ -16,10 +28,327 @@ const WALLET_DESCRIPTIONS: Record<string, string> = {
   'perpetual-evm': 'Only supports USDC deposits on Arbitrum',
 };
 
+// ─── invites ─────────────────────────────────────────────────────────────
+
+/** Fields that count as referral rewards (summed in the totals). */
+const REWARD_KEY_RE = /reward|bonus|commission|points|rebate|earn/i;
+
+interface Invitee {
+  invitee: string;
+  joinedAt?: string;
+  status: string;
+  [rewardKey: string]: unknown;
+}
+
+function firstString(o: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const k of keys) {
+    const v = o[k];
+    if (typeof v === 'string' && v.trim()) return v;
+    if (typeof v === 'number') return String(v);
+  }
+  return undefined;
+}
+
+function toNumber(v: unknown): number | undefined {
+  if (typeof v === 'number') return isFinite(v) ? v : undefined;
+  if (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))) return Number(v);
+  return undefined;
+}
+
+/**
+ * Split the invite-history response into records and any top-level summary
+ * fields (the endpoint returns either a bare array or an envelope).
+ */
+function extractInvites(raw: unknown): { records: Record<string, unknown>[]; summary: Record<string, unknown> } {
+  if (Array.isArray(raw)) return { records: raw as Record<string, unknown>[], summary: {} };
+  if (!raw || typeof raw !== 'object') return { records: [], summary: {} };
+  const o = raw as Record<string, unknown>;
+  const listKey = ['list', 'items', 'invites', 'records', 'data'].find((k) => Array.isArray(o[k]));
+  const summary: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(o)) {
+    if (k !== listKey && (v === null || typeof v !== 'object')) summary[k] = v;
+  }
+  return { records: listKey ? (o[listKey] as Record<string, unknown>[]) : [], summary };
+}
+
+function normalizeInvitee(r: Record<string, unknown>): Invitee {
+  const nested = (r.invitee && typeof r.invitee === 'object' ? r.invitee : r.user && typeof r.user === 'object' ? r.user : {}) as Record<string, unknown>;
+  const invitee = firstString(r, ['email', 'inviteeEmail', 'username', 'displayName', 'name', 'invitee'])
+    ?? firstString(nested, ['email', 'username', 'displayName', 'name', 'id'])
+    ?? firstString(r, ['userId', 'inviteeId', 'id'])
+    ?? '—';
+  const joinedAt = firstString(r, ['joinedAt', 'registeredAt', 'createdAt', 'joinTime', 'created_at'])
+    ?? firstString(nested, ['createdAt']);
+  let status = firstString(r, ['status', 'state']);
+  if (!status) {
+    const flag = [r.activated, r.isActive, r.active, r.verified].find((v) => typeof v === 'boolean');
+    status = flag === undefined ? 'joined' : flag ? 'active' : 'pending';
+  }
+  const row: Invitee = { invitee, joinedAt, status };
+  for (const [k, v] of Object.entries(r)) {
+    if (REWARD_KEY_RE.test(k) && v !== null && typeof v !== 'object') row[k] = v;
+  }
+  return row;
+}
+
+function summarizeInvites(rows: Invitee[]): { byStatus: Record<string, number>; rewards: Record<string, number> } {
+  const byStatus: Record<string, number> = {};
+  const rewards: Record<string, number> = {};
+  for (const row of rows) {
+    const s = row.status.toLowerCase();
+    byStatus[s] = (byStatus[s] ?? 0) + 1;
+    for (const [k, v] of Object.entries(row)) {
+      const n = REWARD_KEY_RE.test(k) ? toNumber(v) : undefined;
+      if (n !== undefined) rewards[k] = (rewards[k] ?? 0) + n;
+    }
+  }
+  return { byStatus, rewards };
+}
+
+const invitesCmd = new Command('invites')
+  .description('List people who joined with your invite code, with totals and rewards')
+  .action(wrapAction(async () => {
+    const creds = requireAuth();
+    const spin = spinner('Fetching invite history…');
+    const res = await getInviteHistory(creds.accessToken);
+    spin.stop();
+
+    const { records, summary } = extractInvites(unwrapApi(res, 'Failed to fetch invite history'));
+    const rows = records.map(normalizeInvitee)
+      .sort((a, b) => (Date.parse(b.joinedAt ?? '') || 0) - (Date.parse(a.joinedAt ?? '') || 0));
+    const { byStatus, rewards } = summarizeInvites(rows);
+
+    if (isRawJson()) {
+      console.log(JSON.stringify({ total: rows.length, byStatus, rewards, summary, invites: records }, null, 2));
+      return;
+    }
+
+    console.log('');
+    console.log(chalk.bold('Invites:') + chalk.dim(`  ${rows.length} total`));
+    if (rows.length === 0) {
+      console.log(chalk.dim('  No one has joined with your invite code yet. See it with: minara account'));
+    } else {
+      const rewardKeys = [...new Set(rows.flatMap((r) => Object.keys(r).filter((k) => REWARD_KEY_RE.test(k))))];
+      const columns: ColumnDef[] = [
+        { key: 'invitee', label: 'Invitee', maxWidth: 40 },
+        {
+          key: 'joinedAt',
+          label: 'Joined',
+          format: (v) => {
+            const t = Date.parse(String(v ?? ''));
+            return isNaN(t) ? formatValue(v) : new Date(t).toLocaleDateString();
+          },
+        },
+        { key: 'status', label: 'Status' },
+        ...rewardKeys.map((k) => ({ key: k, label: formatLabel(k) })),
+      ];
+      printTable(rows, columns);
+    }
+
+    console.log('');
+    console.log(chalk.bold('Totals:'));
+    printKV({
+      invites: rows.length,
+      ...byStatus,
+      ...rewards,
+      ...summary,
+    });
+    console.log('');
+  }));
+
+// ─── delete ──────────────────────────────────────────────────────────────
+
+/** Balances below this (USD) are treated as dust and don't block deletion. */
+const DUST_USD = 0.01;
+
+const CLOSED_ORDER_STATUSES = new Set(['filled', 'cancelled', 'canceled', 'expired', 'completed', 'failed']);
+
+interface DeletionCheck {
+  label: string;
+  /** true = clear, false = blocking, undefined = could not verify (also blocking). */
+  ok?: boolean;
+  detail: string;
+}
+
+const fmtUsd = (n: number) =>
+  `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function unverified(label: string, err: unknown): DeletionCheck {
+  return { label, detail: `could not verify (${err instanceof Error ? err.message : String(err)})` };
+}
+
+function listFrom(raw: unknown, keys: string[]): Record<string, unknown>[] {
+  if (Array.isArray(raw)) return raw as Record<string, unknown>[];
+  if (raw && typeof raw === 'object') {
+    for (const k of keys) {
+      const inner = (raw as Record<string, unknown>)[k];
+      if (Array.isArray(inner)) return inner as Record<string, unknown>[];
+    }
+  }
+  return [];
+}
+
+async function checkSpot(token: string): Promise<DeletionCheck> {
+  const label = 'Spot balances';
+  try {
+    const res = await get<Record<string, unknown>[]>('/users/pnls/all', { token });
+    if (!res.success) throw new Error(res.error?.message ?? 'Unknown error');
+    let total = 0;
+    const symbols: string[] = [];
+    for (const t of listFrom(res.data, ['data'])) {
+      const bal = Number(t.balance ?? 0);
+      const apiVal = Number(t.portfolioValue ?? 0);
+      const value = apiVal > 0 ? apiVal : bal * Number(t.marketPrice ?? 0);
+      if (bal > 0 && value >= DUST_USD) {
+        total += value;
+        symbols.push(String(t.tokenSymbol ?? '?'));
+      }
+    }
+    return symbols.length === 0
+      ? { label, ok: true, detail: 'empty' }
+      : { label, ok: false, detail: `${fmtUsd(total)} in ${symbols.slice(0, 5).join(', ')}${symbols.length > 5 ? ` +${symbols.length - 5} more` : ''}` };
+  } catch (err) {
+    return unverified(label, err);
+  }
+}
+
+/** Open positions and equity across every perps wallet. */
+async function checkPerps(token: string): Promise<DeletionCheck[]> {
+  try {
+    const wallets = await fetchSubAccounts(token);
+    const results = wallets.length > 0
+      ? await Promise.all(wallets.map((w) => perpsApi.getSubAccountSummary(token, getSubAccountId(w))))
+      : [await perpsApi.getAccountSummary(token)];
+
+    let positions = 0;
+    let equity = 0;
+    for (const res of results) {
+      if (!res.success) throw new Error(res.error?.message ?? 'Unknown error');
+      const s = normalizeWalletSummary((res.data ?? {}) as Record<string, unknown>);
+      positions += s.positions.length;
+      equity += s.equity || 0;
+    }
+    const walletNote = wallets.length > 1 ? ` across ${wallets.length} wallets` : '';
+    return [
+      positions === 0
+        ? { label: 'Perps positions', ok: true, detail: 'none open' }
+        : { label: 'Perps positions', ok: false, detail: `${positions} open${walletNote}` },
+      equity < DUST_USD
+        ? { label: 'Perps balance', ok: true, detail: 'empty' }
+        : { label: 'Perps balance', ok: false, detail: `${fmtUsd(equity)} equity${walletNote}` },
+    ];
+  } catch (err) {
+    return [unverified('Perps positions', err), unverified('Perps balance', err)];
+  }
+}
+
+async function checkAutopilot(token: string): Promise<DeletionCheck> {
+  const label = 'Autopilot strategies';
+  try {
+    const res = await perpsApi.getStrategies(token);
+    if (!res.success) throw new Error(res.error?.message ?? 'Unknown error');
+    const active = parseStrategies(res.data).map(strategyToState).filter((s) => s.active);
+    return active.length === 0
+      ? { label, ok: true, detail: 'none running' }
+      : { label, ok: false, detail: `${active.length} running — stop with: minara perps autopilot` };
+  } catch (err) {
+    return unverified(label, err);
+  }
+}
+
+async function checkLimitOrders(token: string): Promise<DeletionCheck> {
+  const label = 'Limit orders';
+  try {
+    const res = await listLimitOrders(token);
+    if (!res.success) throw new Error(res.error?.message ?? 'Unknown error');
+    const open = listFrom(res.data, ['data', 'orders'])
+      .filter((o) => !CLOSED_ORDER_STATUSES.has(String(o.status ?? '').toLowerCase()));
+    return open.length === 0
+      ? { label, ok: true, detail: 'none open' }
+      : { label, ok: false, detail: `${open.length} open — cancel with: minara limit-order cancel` };
+  } catch (err) {
+    return unverified(label, err);
+  }
+}
+
+async function runDeletionChecks(token: string): Promise<DeletionCheck[]> {
+  const [spot, perps, autopilot, orders] = await Promise.all([
+    checkSpot(token),
+    checkPerps(token),
+    checkAutopilot(token),
+    checkLimitOrders(token),
+  ]);
+  return [...perps, autopilot, orders, spot];
+}
+
+const deleteCmd = new Command('delete')
+  .description('Permanently delete your Minara account and wipe local data')
+  .option('--force', 'Delete even with open positions, strategies, orders or funds')
+  .action(wrapAction(async (opts: { force?: boolean }) => {
+    const creds = requireAuth();
+
+    const spin = spinner('Checking account before deletion…');
+    const [userRes, checks] = await Promise.all([
+      getCurrentUser(creds.accessToken),
+      runDeletionChecks(creds.accessToken),
+    ]);
+    spin.stop();
+    const user = unwrapApi(userRes, 'Failed to fetch account info');
+    const email = user.email?.trim();
+    if (!email) {
+      throw new Error('No email address on file for this account; deletion must be confirmed by typing it. Account not deleted.');
+    }
+
+    console.log('');
+    console.log(chalk.bold('Pre-deletion checks:'));
+    for (const c of checks) {
+      const mark = c.ok ? chalk.green('✔') : c.ok === false ? chalk.red('✖') : chalk.yellow('?');
+      console.log(`  ${mark} ${c.label.padEnd(20)} ${c.ok ? chalk.dim(c.detail) : c.detail}`);
+    }
+    console.log('');
+
+    const blocking = checks.filter((c) => !c.ok);
+    if (blocking.length > 0) {
+      if (!opts.force) {
+        throw new Error(
+          `Account still has ${blocking.map((c) => c.label.toLowerCase()).join(', ')} to clear. ` +
+          'Close positions, stop strategies, cancel orders and withdraw funds first, or re-run with --force.',
+        );
+      }
+      warn('--force: deleting despite the items above. Remaining funds may be lost.');
+    }
+
+    console.log(chalk.red.bold('This permanently deletes your Minara account. It cannot be undone.'));
+    const typed = await input({ message: `Type your email (${email}) to confirm:` });
+    if (typed.trim().toLowerCase() !== email.toLowerCase()) {
+      throw new Error('The email did not match. Account not deleted.');
+    }
+
+    await requireTouchId();
+
+    const delSpin = spinner('Deleting account…');
+    const res = await deleteAccount(creds.accessToken);
+    delSpin.stop();
+    assertApiOk(res, 'Failed to delete account');
+
+    clearCredentials();
+    clearConfig();
+    clearChatHistory();
+    clearTemplates();
+
+    success(`Account ${email} deleted at ${new Date().toISOString()}.`);
+    console.log(chalk.dim(`  User ID ${user.id} · local credentials, config, chat history and templates removed.`));
+    console.log('');
+  }));
+
+// ─── account ─────────────────────────────────────────────────────────────
+
 export const accountCommand = new Command('account')
   .alias('me')
   .description('View your Minara account info')
   .option('--show-all', 'Show all wallets including internal addresses')
+  .addCommand(invitesCmd)
+  .addCommand(deleteCmd)
   .action(wrapAction(async (opts) => {
     const creds = requireAuth();
     const spin = spinner('Fetching account info…');
@@ -0,0 +1,131 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { getActivities } from '../api/crosschain.js';
+import { requireAuth } from '../config.js';
+import { success, warnStderr, spinner, assertApiOk, wrapAction, lookupToken, getChainId } from '../utils.js';
+import { printTable, formatCsv, isRawJson, ACTIVITY_COLUMNS } from '../formatters.js';
+import type { CrossChainActivitiesDto } from '../types.js';
+
+/** Safety cap for --all so a runaway cursor can't loop forever. */
+const MAX_PAGES = 100;
+
+interface ActivityOpts {
+  chain?: string;
+  token?: string;
+  tag?: string[];
+  page: string;
+  limit: string;
+  all?: boolean;
+  output?: string;
+}
+
+/** Extract the activity list from either a bare array or a paged envelope. */
+function extractActivities(raw: unknown): Record<string, unknown>[] {
+  if (Array.isArray(raw)) return raw as Record<string, unknown>[];
+  if (raw && typeof raw === 'object') {
+    const obj = raw as Record<string, unknown>;
+    const inner = obj.activities ?? obj.list ?? obj.items ?? obj.data;
+    if (Array.isArray(inner)) return inner as Record<string, unknown>[];
+  }
+  return [];
+}
+
+function collectTag(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+export const activityCommand = new Command('activity')
+  .alias('history')
+  .description('View spot activity history (swaps, transfers, deposits)')
+  .option('-c, --chain <chain>', 'Filter by blockchain (ethereum, base, solana, etc.)')
+  .option('-t, --token <address|ticker>', 'Filter by token contract address or ticker')
+  .option('--tag <tag>', 'Filter by activity tag (repeatable)', collectTag)
+  .option('-p, --page <n>', 'Page number', '1')
+  .option('-l, --limit <n>', 'Items per page', '20')
+  .option('--all', `Fetch every page, up to ${MAX_PAGES} (useful with --output)`)
+  .option('-o, --output <file>', 'Export to a .csv or .json file')
+  .action(wrapAction(async (opts: ActivityOpts) => {
+    const creds = requireAuth();
+
+    // ── Validate flags ───────────────────────────────────────────────────
+    const page = parseInt(opts.page, 10);
+    const limit = parseInt(opts.limit, 10);
+    if (isNaN(page) || page < 1) throw new Error('Page must be a positive integer.');
+    if (isNaN(limit) || limit < 1 || limit > 100) throw new Error('Limit must be between 1 and 100.');
+
+    let chainId: number | undefined;
+    if (opts.chain) {
+      chainId = getChainId(opts.chain);
+      if (chainId === undefined) throw new Error(`Unsupported chain: ${opts.chain}`);
+    }
+
+    let format: 'csv' | 'json' | undefined;
+    if (opts.output) {
+      const ext = extname(opts.output).toLowerCase();
+      if (ext !== '.csv' && ext !== '.json') {
+        throw new Error('Output file must end in .csv or .json');
+      }
+      format = ext === '.csv' ? 'csv' : 'json';
+    }
+
+    const filter: NonNullable<CrossChainActivitiesDto['filter']> = {};
+    if (chainId !== undefined) filter.chainId = chainId;
+    if (opts.token) filter.tokenAddress = (await lookupToken(opts.token)).address;
+    if (opts.tag && opts.tag.length > 0) filter.tags = opts.tag;
+
+    // ── Fetch ────────────────────────────────────────────────────────────
+    const spin = spinner('Fetching activity…');
+    const rows: Record<string, unknown>[] = [];
+    let current = opts.all ? 1 : page;
+    let truncated = false;
+    for (let n = 0; ; n++) {
+      const res = await getActivities(creds.accessToken, {
+        page: current,
+        limit,
+        ...(Object.keys(filter).length > 0 ? { filter } : {}),
+      });
+      if (!res.success) spin.stop();
+      assertApiOk(res, 'Failed to fetch activity');
+      const batch = extractActivities(res.data);
+      rows.push(...batch);
+      if (!opts.all || batch.length < limit) break;
+      if (n + 1 >= MAX_PAGES) {
+        truncated = true;
+        break;
+      }
+      current++;
+    }
+    spin.stop();
+    if (truncated) {
+      warnStderr(`Stopped after ${MAX_PAGES} pages; only the first ${rows.length} activities were fetched.`);
+    }
+
+    // ── Export ───────────────────────────────────────────────────────────
+    if (opts.output && format) {
+      const path = resolve(opts.output);
+      const content = format === 'csv' ? formatCsv(rows) : JSON.stringify(rows, null, 2) + '\n';
+      writeFileSync(path, content, 'utf-8');
+      success(`Exported ${rows.length} activit${rows.length === 1 ? 'y' : 'ies'} to ${path}`);
+      return;
+    }
+
+    if (isRawJson()) {
+      printTable(rows, ACTIVITY_COLUMNS);
+      return;
+    }
+
+    console.log('');
+    const pageLabel = opts.all ? 'all pages' : `page ${page}`;
+    console.log(chalk.bold(`Spot Activity (${pageLabel}, ${rows.length} items):`));
+    if (rows.length === 0) {
+      console.log(chalk.dim('  No activity found.'));
+    } else {
+      printTable(rows, ACTIVITY_COLUMNS);
+      if (!opts.all && rows.length === limit) {
+        console.log(chalk.dim(`  More results: minara activity --page ${page + 1}`));
+      }
+    }
+    console.log('');
+  }));
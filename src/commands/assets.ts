@@ -2,9 +2,11 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import * as perpsApi from '../api/perps.js';
 import { get } from '../api/client.js';
+import { getPnlHistory } from '../api/crosschain.js';
 import { requireAuth } from '../config.js';
-import { spinner, wrapAction } from '../utils.js';
-import { printKV, printTable, SPOT_COLUMNS, POSITION_COLUMNS } from '../formatters.js';
+import { spinner, assertApiOk, wrapAction } from '../utils.js';
+import { printKV, printTable, isRawJson, SPOT_COLUMNS, POSITION_COLUMNS } from '../formatters.js';
+import { toSeries, maxDrawdown, dailyChanges, areaChart, sparkline, shortDate, toMillis } from '../charts.js';
 
 // ─── spot ────────────────────────────────────────────────────────────────
 
@@ -184,12 +186,124 @@ async function showPerpsAssets(token: string): Promise<void> {
   console.log('');
 }
 
+// ─── pnl ─────────────────────────────────────────────────────────────────
+
+const PNL_RANGES = ['7d', '30d', '90d', 'all'] as const;
+type PnlRange = typeof PNL_RANGES[number];
+
+const TIME_KEYS = ['timestamp', 'time', 'date', 'createdAt', 't'];
+const VALUE_KEYS = ['portfolioValue', 'totalValue', 'value', 'balance', 'usdValue'];
+const PNL_KEYS = ['pnl', 'totalPnl', 'cumulativePnl', 'profit'];
+
+/** Extract the history rows from either a bare array or a wrapped envelope. */
+function extractPnlRows(raw: unknown): Record<string, unknown>[] {
+  if (Array.isArray(raw)) return raw as Record<string, unknown>[];
+  if (raw && typeof raw === 'object') {
+    const obj = raw as Record<string, unknown>;
+    const inner = obj.history ?? obj.list ?? obj.items ?? obj.data ?? obj.points;
+    if (Array.isArray(inner)) return inner as Record<string, unknown>[];
+  }
+  return [];
+}
+
+const pnlCmd = new Command('pnl')
+  .description('Spot portfolio value & PnL over time')
+  .option('-r, --range <range>', `Time range: ${PNL_RANGES.join(', ')}`, '30d')
+  .action(wrapAction(async (opts: { range: string }) => {
+    const range = opts.range.toLowerCase() as PnlRange;
+    if (!PNL_RANGES.includes(range)) {
+      throw new Error(`Invalid range: ${opts.range}. Must be one of ${PNL_RANGES.join(', ')}.`);
+    }
+    const creds = requireAuth();
+
+    const spin = spinner('Fetching PnL history…');
+    const res = await getPnlHistory(creds.accessToken, range);
+    spin.stop();
+    assertApiOk(res, 'Failed to fetch PnL history');
+
+    const rows = extractPnlRows(res.data);
+    const value = toSeries(rows, TIME_KEYS, VALUE_KEYS);
+    const pnl = toSeries(rows, TIME_KEYS, PNL_KEYS);
+
+    // Daily moves come from cumulative PnL when present, otherwise from value
+    const days = dailyChanges(pnl.length > 1 ? pnl : value);
+    const best = days.reduce<typeof days[number] | undefined>((b, d) => (!b || d.change > b.change ? d : b), undefined);
+    const worst = days.reduce<typeof days[number] | undefined>((w, d) => (!w || d.change < w.change ? d : w), undefined);
+    const drawdown = maxDrawdown(value.map((p) => p.value));
+    const start = value[0]?.value;
+    const end = value[value.length - 1]?.value;
+    const periodPnl = pnl.length > 0
+      ? pnl[pnl.length - 1].value - (pnl.length > 1 ? pnl[0].value : 0)
+      : start !== undefined && end !== undefined ? end - start : undefined;
+
+    if (isRawJson()) {
+      console.log(JSON.stringify({
+        range,
+        stats: {
+          startValue: start ?? null,
+          endValue: end ?? null,
+          pnl: periodPnl ?? null,
+          maxDrawdown: drawdown.amount,
+          maxDrawdownPercent: drawdown.percent,
+          bestDay: best ?? null,
+          worstDay: worst ?? null,
+        },
+        history: rows,
+      }, null, 2));
+      return;
+    }
+
+    const fmt = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const pnlFmt = (n: number) => {
+      if (n === 0) return chalk.dim('$0.00');
+      const color = n >= 0 ? chalk.green : chalk.red;
+      return color(`${n >= 0 ? '+' : '-'}${fmt(Math.abs(n))}`);
+    };
+    const dayLabel = (d: { date: string }) => chalk.dim(`(${shortDate(toMillis(d.date))})`);
+
+    console.log('');
+    console.log(chalk.bold(`Spot PnL — ${range === 'all' ? 'all time' : `last ${range}`}:`));
+
+    if (value.length === 0 && pnl.length === 0) {
+      console.log(chalk.dim('  No PnL history for this range.'));
+      console.log('');
+      return;
+    }
+
+    if (value.length > 1) {
+      console.log('');
+      console.log(chalk.dim('  Portfolio value'));
+      for (const line of areaChart(value, { formatY: fmt })) console.log(`  ${line}`);
+    }
+    if (pnl.length > 1) {
+      const color = pnl[pnl.length - 1].value >= pnl[0].value ? chalk.green : chalk.red;
+      console.log('');
+      console.log(`  ${chalk.dim('PnL')}  ${color(sparkline(pnl.map((p) => p.value)))}`);
+    }
+
+    console.log('');
+    if (start !== undefined && end !== undefined) {
+      const pct = start > 0 ? ` ${chalk.dim(`(${((end - start) / start * 100).toFixed(2)}%)`)}` : '';
+      console.log(`  Start Value  : ${fmt(start)}`);
+      console.log(`  End Value    : ${fmt(end)}${pct}`);
+    }
+    if (periodPnl !== undefined) console.log(`  PnL          : ${pnlFmt(periodPnl)}`);
+    if (value.length > 1) {
+      const ddPct = drawdown.percent > 0 ? ` ${chalk.dim(`(-${drawdown.percent.toFixed(2)}%)`)}` : '';
+      console.log(`  Max Drawdown : ${drawdown.amount > 0 ? chalk.red(`-${fmt(drawdown.amount)}`) : chalk.dim('$0.00')}${ddPct}`);
+    }
+    if (best) console.log(`  Best Day     : ${pnlFmt(best.change)} ${dayLabel(best)}`);
+    if (worst) console.log(`  Worst Day    : ${pnlFmt(worst.change)} ${dayLabel(worst)}`);
+    console.log('');
+  }));
+
 // ─── parent ──────────────────────────────────────────────────────────────
 
 export const assetsCommand = new Command('assets')
   .description('View your wallet assets (spot & perps)')
   .addCommand(spotCmd)
   .addCommand(perpsCmd)
+  .addCommand(pnlCmd)
   .action(wrapAction(async () => {
     const creds = requireAuth();
     await showSpotAssets(creds.accessToken);
@@ -1,80 +1,193 @@
 import { Command } from 'commander';
-import { select } from '@inquirer/prompts';
+import { select, confirm, input } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { sendChatStream, listChats, getMemories } from '../api/chat.js';
+import { sendChatStream, stopChat, listChats, getChat, updateChatName, deleteChat, searchChats, getChatModels } from '../api/chat.js';
 import { requireAuth } from '../config.js';
-import { error, info, spinner, unwrapApi, wrapAction } from '../utils.js';
+import { error, info, success, warn, spinner, unwrapApi, wrapAction } from '../utils.js';
+import { isRawJson } from '../formatters.js';
+import { loadAttachment, buildMessageContent, describeAttachment } from '../attachments.js';
+import { parseSSE, createStreamRenderer, type StreamMeta } from '../chat-stream.js';
+import {
+  fetchAllMemories, orderThread, activeBranch, memoryText, renderExport, type ExportFormat, type ThreadEntry,
+} from '../chat-history.js';
+import { createMarkdownStream } from '../markdown.js';
+import {
+  saveTemplate, loadTemplate, listTemplates, deleteTemplate, templateExists, templatePlaceholders, fillTemplate,
+} from '../chat-templates.js';
+import {
+  loadChatHistory, appendChatHistory, createLineAssembler, readPipedInput, CHAT_HISTORY_MAX,
+} from '../chat-input.js';
+import type { ChatInfo, ChatContentPart, ChatMemory } from '../types.js';
 import { createInterface } from 'node:readline';
+import { writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
 import { randomUUID } from 'node:crypto';
 
-/** Parse SSE stream and yield text chunks */
-async function* parseSSE(response: Response): AsyncGenerator<string> {
-  const reader = response.body?.getReader();
-  if (!reader) return;
-  const decoder = new TextDecoder();
-  let buffer = '';
+// ─── session management ──────────────────────────────────────────────────
+// Shared by the `chat history rename|delete|search` subcommands and the REPL. These
+// throw instead of exiting so a failure doesn't end an interactive session.
+
+async function renameChat(token: string, chatId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Chat name cannot be empty.');
+  const spin = spinner('Renaming chat…');
+  const res = await updateChatName(token, chatId, trimmed);
+  spin.stop();
+  if (!res.success) throw new Error(`Failed to rename chat: ${res.error?.message ?? 'Unknown error'}`);
+  success(`Renamed ${chalk.dim(chatId.slice(0, 8))} → ${chalk.bold(trimmed)}`);
+}
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      const lines = buffer.split('\n');
-      buffer = lines.pop() ?? '';
-
-      for (const line of lines) {
-        if (!line) continue;
-
-        // Handle AI SDK v5 streaming format: "type:value"
-        const colonIndex = line.indexOf(':');
-        if (colonIndex !== -1) {
-          const type = line.slice(0, colonIndex);
-          const data = line.slice(colonIndex + 1);
-
-          if (type === '0' && data) {
-            try {
-              const parsed = JSON.parse(data);
-              if (typeof parsed === 'string') {
-                yield parsed;
-              } else if (parsed.text) {
-                yield parsed.text;
-              } else if (parsed.content) {
-                yield parsed.content;
-              }
-            } catch {
-              yield data;
-            }
-          }
-          continue;
-        }
+/** Delete chats after confirmation. Returns the IDs that were deleted. */
+async function deleteChats(token: string, chatIds: string[], skipConfirm = false): Promise<string[]> {
+  if (!skipConfirm) {
+    const label = chatIds.length === 1 ? `chat ${chatIds[0]}` : `${chatIds.length} chats`;
+    const ok = await confirm({ message: `Delete ${label}? This cannot be undone.`, default: false });
+    if (!ok) return [];
+  }
 
-        // Handle standard SSE format: "data:json"
-        if (line.startsWith('data:')) {
-          const data = line.slice(5).trim();
-          if (data === '[DONE]') return;
-          try {
-            const parsed = JSON.parse(data);
-            const text = parsed?.choices?.[0]?.delta?.content
-              ?? parsed?.content
-              ?? parsed?.text
-              ?? parsed?.data?.text
-              ?? (typeof parsed === 'string' ? parsed : null);
-            if (text) yield text;
-          } catch {
-            if (data) yield data;
-          }
-        }
-      }
+  const deleted: string[] = [];
+  const failed: string[] = [];
+  const spin = spinner(`Deleting ${chatIds.length} chat${chatIds.length === 1 ? '' : 's'}…`);
+  for (const id of chatIds) {
+    const res = await deleteChat(token, id);
+    if (res.success) deleted.push(id);
+    else failed.push(`${id} (${res.error?.message ?? 'Unknown error'})`);
+  }
+  spin.stop();
+
+  if (deleted.length > 0) success(`Deleted ${deleted.length} chat${deleted.length === 1 ? '' : 's'}.`);
+  if (failed.length > 0) throw new Error(`Failed to delete: ${failed.join(', ')}`);
+  return deleted;
+}
+
+async function searchAndPrintChats(token: string, query: string, limit = 10): Promise<void> {
+  const q = query.trim();
+  if (!q) throw new Error('Search query cannot be empty.');
+  const spin = spinner('Searching chats…');
+  const res = await searchChats(token, q, limit);
+  spin.stop();
+  if (!res.success) throw new Error(`Failed to search chats: ${res.error?.message ?? 'Unknown error'}`);
+  const chats: ChatInfo[] = Array.isArray(res.data) ? res.data : [];
+
+  if (isRawJson()) {
+    console.log(JSON.stringify(chats, null, 2));
+    return;
+  }
+  if (chats.length === 0) {
+    info(`No chats matching "${q}".`);
+    return;
+  }
+  console.log('');
+  for (const c of chats) {
+    const name = c.name ?? chalk.dim('(untitled)');
+    const time = c.updatedAt ? chalk.dim(` ${c.updatedAt}`) : '';
+    console.log(`  ${chalk.bold(c.chatId)}  ${name}${time}`);
+    if (c.firstMessage) console.log(chalk.dim(`    ${c.firstMessage.replace(/\s+/g, ' ').slice(0, 80)}`));
+  }
+  console.log('');
+}
+
+// ─── models ──────────────────────────────────────────────────────────────
+
+function modelId(m: Record<string, unknown>): string {
+  return String(m.id ?? m.model ?? m.value ?? m.name ?? '');
+}
+
+async function fetchChatModels(token: string): Promise<Record<string, unknown>[]> {
+  const spin = spinner('Fetching models…');
+  const res = await getChatModels(token);
+  spin.stop();
+  if (!res.success) throw new Error(`Failed to fetch models: ${res.error?.message ?? 'Unknown error'}`);
+  const raw = res.data as unknown;
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw && typeof raw === 'object' ? (raw as Record<string, unknown>).models ?? (raw as Record<string, unknown>).data : undefined);
+  return (Array.isArray(list) ? list : []).filter((m) => modelId(m as Record<string, unknown>)) as Record<string, unknown>[];
+}
+
+function printModels(models: Record<string, unknown>[], current?: string): void {
+  if (isRawJson()) {
+    console.log(JSON.stringify(models, null, 2));
+    return;
+  }
+  if (models.length === 0) {
+    info('No models available.');
+    return;
+  }
+  console.log('');
+  console.log(chalk.bold('Available models:'));
+  for (const m of models) {
+    const id = modelId(m);
+    const marker = id === current ? chalk.green('●') : ' ';
+    const name = m.name && m.name !== id ? `  ${m.name}` : '';
+    const desc = m.description ? chalk.dim(`  ${m.description}`) : '';
+    console.log(`  ${marker} ${chalk.bold(id)}${name}${desc}`);
+  }
+  console.log('');
+}
+
+/** Pick one or more chats from the recent list (REPL `/delete` with no IDs). */
+async function pickChats(token: string, message: string): Promise<string[]> {
+  const spin = spinner('Fetching chats…');
+  const res = await listChats(token);
+  spin.stop();
+  const chats = res.data;
+  if (!chats || chats.length === 0) return [];
+  const selected = await select({
+    message,
+    choices: chats.map((c) => ({
+      name: `${(c.chatId).slice(0, 12)}…  ${c.name ?? '(untitled)'}`,
+      value: c.chatId,
+    })),
+  });
+  return [selected];
+}
+
+// ─── history replay ──────────────────────────────────────────────────────
+
+/** Number of turns (user + reply) shown when continuing a chat in the REPL. */
+const CONTINUE_CONTEXT_TURNS = 3;
+
+/** Print messages with role, timestamp and a marker where other versions exist. */
+function printThread(entries: ThreadEntry[], hidden = 0, markdown = false): void {
+  console.log('');
+  if (hidden > 0) {
+    console.log(chalk.dim(`  … ${hidden} earlier message${hidden === 1 ? '' : 's'}`));
+    console.log('');
+  }
+  for (const e of entries) {
+    const m = e.memory;
+    const prefix = m.role === 'user' ? chalk.blue.bold('You') : chalk.green.bold('Minara');
+    const time = m.createdAt ? new Date(m.createdAt).toLocaleString() : '';
+    const version = e.versions > 1 ? chalk.yellow(` · version ${e.version}/${e.versions}`) : '';
+    console.log(`${prefix} ${chalk.dim(time)}${version}`);
+    const text = memoryText(m.content);
+    if (markdown) {
+      const md = createMarkdownStream((s) => { process.stdout.write(s); });
+      md.push(text);
+      md.end();
+      process.stdout.write('\n');
+    } else {
+      console.log(text);
     }
-  } finally {
-    reader.releaseLock();
+    console.log('');
   }
 }
 
 interface ChatOpts {
   chatId?: string; list?: boolean; history?: string;
   thinking?: boolean; quality?: boolean;
+  models?: boolean; model?: string;
+  attach?: string[];
+  raw?: boolean;
+  tail?: string;
+  output?: string;
+  /** Append piped stdin to a one-shot prompt (ask / research). */
+  stdin?: boolean;
+}
+
+function collectPath(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
 }
 
 async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
@@ -96,74 +209,196 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
       return;
     }
 
+    // ── List models ──────────────────────────────────────────────────────
+    if (opts?.models) {
+      printModels(await fetchChatModels(creds.accessToken), opts.model);
+      return;
+    }
+
     // ── Show history ─────────────────────────────────────────────────────
     if (opts?.history) {
+      let tail: number | undefined;
+      if (opts.tail !== undefined) {
+        tail = parseInt(opts.tail, 10);
+        if (isNaN(tail) || tail < 1) throw new Error('--tail must be a positive integer.');
+      }
       const spin = spinner('Loading history…');
-      const res = await getMemories(creds.accessToken, opts.history);
-      spin.stop();
-      const memories = unwrapApi(res, 'Failed to load chat history');
-      for (const m of memories) {
-        const prefix = m.role === 'user' ? chalk.blue.bold('You   ') : chalk.green.bold('Minara');
-        const content = typeof m.content === 'string' ? m.content : JSON.stringify(m.content);
-        console.log(`${prefix}: ${content}`);
+      let memories: ChatMemory[];
+      try {
+        memories = await fetchAllMemories(creds.accessToken, opts.history);
+      } finally {
+        spin.stop();
+      }
+      const thread = activeBranch(memories);
+      const shown = tail ? thread.slice(-tail) : thread;
+      if (isRawJson()) {
+        console.log(JSON.stringify(shown.map((e) => e.memory), null, 2));
+        return;
       }
+      if (shown.length === 0) {
+        console.log(chalk.dim('No messages in this chat.'));
+        return;
+      }
+      printThread(shown, thread.length - shown.length, !opts.raw && !!process.stdout.isTTY);
       return;
     }
 
     // ── Chat context ─────────────────────────────────────────────────────
     let chatId: string | undefined = opts?.chatId;
     if (!chatId) chatId = randomUUID();
+    let model: string | undefined = opts?.model;
+    // Attachments are sent with the next message, then cleared
+    let pendingAttachments: ChatContentPart[] = (opts?.attach ?? []).map(loadAttachment);
+    // Reasoning display: streamed as a dimmed block, or collapsed to one line (/thoughts)
+    let showThinking = true;
+    // Markdown is rendered only on an interactive terminal, so piped output stays plain
+    const markdown = !opts?.raw && !!process.stdout.isTTY;
+    let lastReasoning = '';
+
+    // ── In-flight response, so Ctrl+C can cancel it instead of exiting ──
+    let inflight: { controller: AbortController; userMessageId: string; meta: StreamMeta } | null = null;
+
+    /** Abort the streaming fetch and ask the server to stop generating. */
+    async function interruptResponse(): Promise<void> {
+      if (!inflight) return;
+      const { controller, userMessageId, meta } = inflight;
+      inflight = null;
+      controller.abort();
+      try {
+        await stopChat(creds.accessToken, meta.messageId ?? userMessageId);
+      } catch {
+        // Best effort — the local stream is already closed
+      }
+    }
 
-    // ── Stream a response and print to stdout ────────────────────────────
-    async function sendAndPrint(msg: string) {
-      process.stdout.write(chalk.green.bold('Minara') + chalk.dim(': '));
-      const response = await sendChatStream(creds.accessToken, {
+    function isAbortError(err: unknown): boolean {
+      return !!err && typeof err === 'object' && 'name' in err && err.name === 'AbortError';
+    }
+
+    function requestReply(msg: string, attachments: ChatContentPart[], userMessageId: string, signal: AbortSignal) {
+      return sendChatStream(creds.accessToken, {
         chatId,
-        message: { role: 'user', content: msg },
+        message: { role: 'user', content: buildMessageContent(msg, attachments), id: userMessageId },
         thinking: opts?.thinking,
         workMode: opts?.quality ? 'quality' : 'fast',
+        ...(model ? { model } : {}),
         chartOptions: { chartsCountRecommendedLimit: 0 },
-      });
-      if (!response.ok) {
-        const body = await response.text();
-        console.log('');
-        error(`API error ${response.status}: ${body}`);
-        return;
-      }
+      }, signal);
+    }
 
-      // Debug: Check if response body exists
-      if (!response.body) {
-        console.log(chalk.dim('(No response body)'));
-        return;
+    /**
+     * Non-interactive send for `--json` / `--output`: collects the full
+     * answer text instead of rendering it, and throws on failure so scripts
+     * get a non-zero exit code.
+     */
+    async function sendAndCapture(msg: string, attachments: ChatContentPart[]): Promise<{ messageId?: string; text: string }> {
+      const controller = new AbortController();
+      const userMessageId = randomUUID();
+      const meta: StreamMeta = {};
+      inflight = { controller, userMessageId, meta };
+      try {
+        const response = await requestReply(msg, attachments, userMessageId, controller.signal);
+        if (!response.ok) throw new Error(`API error ${response.status}: ${await response.text()}`);
+        let text = '';
+        const errors: string[] = [];
+        for await (const event of parseSSE(response, meta)) {
+          if (event.type === 'text') text += event.text;
+          else if (event.type === 'error') errors.push(event.message);
+        }
+        if (!text) throw new Error(errors.length > 0 ? errors.join('; ') : 'No response content');
+        return { messageId: meta.messageId, text };
+      } finally {
+        if (inflight?.controller === controller) inflight = null;
       }
+    }
+
+    // ── Stream a response and print to stdout ────────────────────────────
+    async function sendAndPrint(msg: string, attachments: ChatContentPart[] = []) {
+      const controller = new AbortController();
+      const userMessageId = randomUUID();
+      const meta: StreamMeta = {};
+      inflight = { controller, userMessageId, meta };
 
-      let hasContent = false;
       try {
-        for await (const chunk of parseSSE(response)) {
-          if (chunk) {
-            process.stdout.write(chunk);
-            hasContent = true;
-          }
+        process.stdout.write(chalk.green.bold('Minara') + chalk.dim(': '));
+        let response: Response;
+        try {
+          response = await requestReply(msg, attachments, userMessageId, controller.signal);
+        } catch (err) {
+          if (isAbortError(err)) { console.log(chalk.dim('\n(interrupted)')); return; }
+          throw err;
         }
-      } catch (err) {
-        // Ignore cancellation errors
-        if (err && typeof err === 'object' && 'name' in err && err.name === 'AbortError') {
+        if (!response.ok) {
+          const body = await response.text();
+          console.log('');
+          error(`API error ${response.status}: ${body}`);
           return;
         }
-        if (process.env.DEBUG) {
-          console.log(chalk.dim(`\n[Stream error: ${err}]`));
+
+        // Debug: Check if response body exists
+        if (!response.body) {
+          console.log(chalk.dim('(No response body)'));
+          return;
         }
-      }
 
-      if (!hasContent) {
-        console.log(chalk.dim('(No response content)'));
+        const renderer = createStreamRenderer({ showThinking, markdown });
+        try {
+          for await (const event of parseSSE(response, meta)) {
+            renderer.render(event);
+          }
+        } catch (err) {
+          if (isAbortError(err)) { renderer.finish(); console.log(chalk.dim('\n(interrupted)')); return; }
+          if (process.env.DEBUG) {
+            console.log(chalk.dim(`\n[Stream error: ${err}]`));
+          }
+        } finally {
+          renderer.finish();
+          if (renderer.reasoning) lastReasoning = renderer.reasoning;
+        }
+
+        if (!renderer.hasContent) {
+          console.log(chalk.dim('(No response content)'));
+        }
+        console.log('\n');
+      } finally {
+        if (inflight?.controller === controller) inflight = null;
       }
-      console.log('\n');
     }
 
-    // ── Single-shot mode: minara chat "message" ──────────────────────────
-    if (messageArg) {
-      await sendAndPrint(messageArg);
+    // ── Single-shot mode: minara chat "message" (and/or piped stdin) ─────
+    const explicitStdin = messageArg === '-';
+    if (explicitStdin) messageArg = undefined;
+    const piped = explicitStdin || opts?.stdin ? await readPipedInput(explicitStdin) : undefined;
+    if (explicitStdin && !piped) throw new Error('No input on stdin.');
+    const prompt = [messageArg, piped].filter(Boolean).join('\n\n');
+    if (!prompt && opts?.output) throw new Error('--output needs a message or piped input.');
+    if (prompt) {
+      const onSigint = () => { void interruptResponse().finally(() => process.exit(130)); };
+      process.once('SIGINT', onSigint);
+      try {
+        if (!isRawJson() && !opts?.output) {
+          await sendAndPrint(prompt, pendingAttachments);
+          return;
+        }
+
+        const spin = isRawJson() ? undefined : spinner('Waiting for Minara…');
+        let result: { messageId?: string; text: string };
+        try {
+          result = await sendAndCapture(prompt, pendingAttachments);
+        } finally {
+          spin?.stop();
+        }
+        if (opts?.output) {
+          const path = resolve(opts.output);
+          writeFileSync(path, result.text.trimEnd() + '\n', 'utf-8');
+          if (!isRawJson()) success(`Saved answer to ${path}`);
+        }
+        if (isRawJson()) {
+          console.log(JSON.stringify({ chatId, messageId: result.messageId ?? null, text: result.text }, null, 2));
+        }
+      } finally {
+        process.off('SIGINT', onSigint);
+      }
       return;
     }
 
@@ -171,6 +406,7 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
     const modeFlags = [
       opts?.quality ? chalk.cyan('quality') : chalk.green('fast'),
       opts?.thinking && chalk.yellow('thinking'),
+      model && chalk.magenta(model),
     ].filter(Boolean);
     const modeStr = modeFlags.length ? ` ${chalk.dim('[')}${modeFlags.join(chalk.dim(', '))}${chalk.dim(']')}` : '';
 
@@ -181,25 +417,127 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
       modeStr,
     );
     console.log(chalk.dim('─'.repeat(50)));
-    console.log(chalk.dim('Type a message to chat. /help for commands, Ctrl+C to exit.'));
+    console.log(chalk.dim('Type a message to chat. /help for commands, Ctrl+C to stop a reply or exit.'));
+    console.log(chalk.dim('For multiline input, wrap it in """ or press Alt+Enter for a new line.'));
+    if (pendingAttachments.length > 0) {
+      info(`${pendingAttachments.length} attachment${pendingAttachments.length === 1 ? '' : 's'} will be sent with your first message.`);
+    }
     console.log('');
 
-    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      history: loadChatHistory(),
+      historySize: CHAT_HISTORY_MAX,
+      removeHistoryDuplicates: true,
+    });
+
+    // ── Multiline input: """ fences, Alt+Enter and bracketed paste ───────
+    const assembler = createLineAssembler();
+    const queued: string[] = [];
+    let waiting: ((line: string) => void) | null = null;
+    let reading = false;
+    let suspended = false;
+    let pasting = false;
+    const bracketedPaste = !!process.stdin.isTTY && !!process.stdout.isTTY;
+    if (bracketedPaste) process.stdout.write('\x1b[?2004h');
+
+    const showPrompt = () => {
+      rl.setPrompt(assembler.pending ? chalk.dim('... ') : chalk.blue.bold('>>> '));
+      rl.prompt();
+    };
+
+    // Lines are queued rather than read with rl.question, so a paste of
+    // several lines can't drop the ones that arrive between prompts. Lines
+    // typed while no prompt is open (a reply streaming, an inquirer prompt
+    // answering) are dropped so they never reach the model.
+    rl.on('line', (line) => {
+      if (suspended || !reading) return;
+      if (pasting) {
+        assembler.hold(line);
+        return;
+      }
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve(line);
+      } else {
+        queued.push(line);
+      }
+    });
 
-    async function sendAndPrintWithPause(msg: string) {
+    process.stdin.on('keypress', (_s: string | undefined, key?: { name?: string; meta?: boolean }) => {
+      if (suspended) return;
+      if (key?.name === 'paste-start') pasting = true;
+      else if (key?.name === 'paste-end') pasting = false;
+      else if (key?.meta && (key.name === 'return' || key.name === 'enter')) {
+        // Alt+Enter: keep the current line and continue on the next one
+        const line = rl.line;
+        rl.write(null, { ctrl: true, name: 'e' });
+        rl.write(null, { ctrl: true, name: 'u' });
+        process.stdout.write(`${line}\n`);
+        assembler.hold(line);
+        showPrompt();
+      }
+    });
+
+    /** Read one complete message (possibly spanning several lines). */
+    const ask = async (): Promise<string> => {
+      reading = true;
+      try {
+        while (true) {
+          if (queued.length === 0) showPrompt();
+          const line = queued.shift() ?? await new Promise<string>((resolve) => { waiting = resolve; });
+          const message = assembler.push(line);
+          if (message !== null) return message;
+        }
+      } finally {
+        reading = false;
+      }
+    };
+
+    /**
+     * Run an inquirer prompt (or a flow containing one) with the REPL's
+     * readline detached; both listen on stdin, so answers would otherwise
+     * be read as chat messages too.
+     */
+    const withPrompt = async <T>(fn: () => Promise<T>): Promise<T> => {
+      suspended = true;
       rl.pause();
       try {
-        await sendAndPrint(msg);
+        return await fn();
       } finally {
+        queued.length = 0;
+        if (rl.terminal) {
+          // Drop the answer keystrokes the REPL's readline also buffered
+          rl.write(null, { ctrl: true, name: 'e' });
+          rl.write(null, { ctrl: true, name: 'u' });
+        }
         rl.resume();
-        process.stdout.write('\n');
+        suspended = false;
       }
-    }
-
-    const ask = (): Promise<string> =>
-      new Promise((resolve) => rl.question(chalk.blue.bold('>>> '), resolve));
+    };
+
+    // First Ctrl+C cancels a streaming answer (or a half-typed multiline
+    // message) and returns to the prompt; Ctrl+C at the prompt exits. The
+    // readline stays active while streaming (not paused) so the keypress
+    // reaches this handler.
+    rl.on('SIGINT', () => {
+      if (inflight) {
+        void interruptResponse();
+        return;
+      }
+      if (assembler.pending) {
+        assembler.reset();
+        process.stdout.write(chalk.dim('^C\n'));
+        showPrompt();
+        return;
+      }
+      rl.close();
+    });
 
     rl.on('close', () => {
+      if (bracketedPaste) process.stdout.write('\x1b[?2004l');
       console.log(chalk.dim('\nGoodbye!'));
       process.exit(0);
     });
@@ -207,6 +545,7 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
     while (true) {
       const userMsg = (await ask()).trim();
       if (!userMsg) continue;
+      appendChatHistory(userMsg);
 
       // ── REPL commands ──────────────────────────────────────────────────
       if (userMsg.toLowerCase() === 'exit' || userMsg.toLowerCase() === 'quit') {
@@ -232,15 +571,22 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
         spin.stop();
         const chats = res.data;
         if (chats && chats.length > 0) {
-          const selected = await select({
+          const selected = await withPrompt(() => select({
             message: 'Select a chat to continue:',
             choices: chats.map((c) => ({
               name: `${(c.chatId).slice(0, 12)}…  ${c.name ?? '(untitled)'}`,
               value: c.chatId,
             })),
-          });
+          }));
           chatId = selected;
           info(`Continuing chat ${chalk.dim(`(session:${chatId.slice(0, 8)})`)}`);
+          try {
+            const thread = activeBranch(await fetchAllMemories(creds.accessToken, chatId));
+            const shown = thread.slice(-CONTINUE_CONTEXT_TURNS * 2);
+            if (shown.length > 0) printThread(shown, thread.length - shown.length, markdown);
+          } catch (err) {
+            warn(err instanceof Error ? err.message : String(err));
+          }
         } else {
           info('No existing chats found.');
         }
@@ -267,6 +613,125 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
         continue;
       }
 
+      if (userMsg === '/rename' || userMsg.startsWith('/rename ')) {
+        const name = userMsg.slice('/rename'.length).trim();
+        if (!name) {
+          warn('Usage: /rename <name>');
+          continue;
+        }
+        try {
+          await renameChat(creds.accessToken, chatId, name);
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+        }
+        continue;
+      }
+
+      if (userMsg === '/delete' || userMsg.startsWith('/delete ')) {
+        try {
+          const args = userMsg.slice('/delete'.length).trim().split(/\s+/).filter(Boolean);
+          const ids = args.length > 0 ? args : await withPrompt(() => pickChats(creds.accessToken, 'Select a chat to delete:'));
+          if (ids.length === 0) {
+            info('No chats to delete.');
+            continue;
+          }
+          const deleted = await withPrompt(() => deleteChats(creds.accessToken, ids));
+          if (deleted.includes(chatId)) {
+            chatId = randomUUID();
+            info(`Current chat deleted — new conversation started ${chalk.dim(`(session:${chatId.slice(0, 8)})`)}`);
+          }
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+        }
+        continue;
+      }
+
+      if (userMsg === '/search' || userMsg.startsWith('/search ')) {
+        const query = userMsg.slice('/search'.length).trim();
+        if (!query) {
+          warn('Usage: /search <query>');
+          continue;
+        }
+        try {
+          await searchAndPrintChats(creds.accessToken, query);
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+        }
+        continue;
+      }
+
+      if (userMsg === '/model' || userMsg.startsWith('/model ')) {
+        const arg = userMsg.slice('/model'.length).trim();
+        try {
+          if (arg === 'default') {
+            model = undefined;
+            info('Using the server default model.');
+            continue;
+          }
+          const models = await fetchChatModels(creds.accessToken);
+          const ids = models.map(modelId);
+          if (arg) {
+            if (ids.length > 0 && !ids.includes(arg)) {
+              warn(`Unknown model "${arg}". Available: ${ids.join(', ')}`);
+              continue;
+            }
+            model = arg;
+          } else if (models.length > 0) {
+            model = await withPrompt(() => select({
+              message: 'Select a model:',
+              choices: models.map((m) => ({
+                name: `${modelId(m)}${m.description ? chalk.dim(`  ${m.description}`) : ''}`,
+                value: modelId(m),
+              })),
+              default: model,
+            }));
+          } else {
+            info('No models available.');
+            continue;
+          }
+          info(`Model set to ${chalk.magenta(model)}`);
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+        }
+        continue;
+      }
+
+      if (userMsg === '/attach' || userMsg.startsWith('/attach ')) {
+        const arg = userMsg.slice('/attach'.length).trim().replace(/^(['"])(.*)\1$/, '$2');
+        if (arg === 'clear') {
+          pendingAttachments = [];
+          info('Attachments cleared.');
+        } else if (arg) {
+          try {
+            const part = loadAttachment(arg);
+            pendingAttachments.push(part);
+            success(`Attached ${chalk.bold(arg)} ${chalk.dim(`(${describeAttachment(part)})`)} — sent with your next message.`);
+          } catch (err) {
+            error(err instanceof Error ? err.message : String(err));
+          }
+        } else if (pendingAttachments.length > 0) {
+          console.log(chalk.dim(`  Queued: ${pendingAttachments.map(describeAttachment).join(', ')}`));
+        } else {
+          warn('Usage: /attach <path>   (/attach clear to remove queued files)');
+        }
+        continue;
+      }
+
+      if (userMsg === '/thoughts' || userMsg.startsWith('/thoughts ')) {
+        const arg = userMsg.slice('/thoughts'.length).trim().toLowerCase();
+        if (arg === 'show' || arg === 'hide') {
+          showThinking = arg === 'show';
+          info(showThinking ? 'Reasoning will be shown as it streams.' : 'Reasoning will be collapsed to a summary line.');
+        } else if (arg) {
+          warn('Usage: /thoughts [show|hide]');
+        } else if (lastReasoning) {
+          console.log(chalk.dim(`┌ Thinking\n│ ${lastReasoning.replace(/\n/g, '\n│ ')}\n└`));
+        } else {
+          info('No reasoning in the last reply. Use --thinking to enable it.');
+        }
+        continue;
+      }
+
       if (userMsg === '/help') {
         console.log('');
         console.log(chalk.bold('  Commands:'));
@@ -274,38 +739,262 @@ async function chatAction(messageArg?: string, opts?: ChatOpts): Promise<void> {
         console.log(chalk.dim('  /continue   ') + 'Continue an existing conversation');
         console.log(chalk.dim('  /list       ') + 'List all historical chats');
         console.log(chalk.dim('  /id         ') + 'Show current chat ID');
+        console.log(chalk.dim('  /rename <n> ') + 'Rename the current chat');
+        console.log(chalk.dim('  /delete     ') + 'Delete chats by ID (or pick one)');
+        console.log(chalk.dim('  /search <q> ') + 'Search past chats');
+        console.log(chalk.dim('  /model [id] ') + 'Switch model (default = server default)');
+        console.log(chalk.dim('  /attach <f> ') + 'Attach an image (PNG/JPEG) or text/CSV file to the next message');
+        console.log(chalk.dim('  /thoughts   ') + 'Show the last reply\'s reasoning (show|hide to toggle display)');
         console.log(chalk.dim('  exit        ') + 'Quit the chat');
         console.log('');
         continue;
       }
-      await sendAndPrintWithPause(userMsg);
+      const attachments = pendingAttachments;
+      pendingAttachments = [];
+      await sendAndPrint(userMsg, attachments);
+      process.stdout.write('\n');
+    }
+}
+
+// ─── subcommands ─────────────────────────────────────────────────────────
+
+const renameCmd = new Command('rename')
+  .description('Rename a chat')
+  .argument('<chatId>', 'Chat ID')
+  .argument('<name...>', 'New chat name')
+  .action(wrapAction(async (chatId: string, nameParts: string[]) => {
+    const creds = requireAuth();
+    await renameChat(creds.accessToken, chatId, nameParts.join(' '));
+  }));
+
+const deleteCmd = new Command('delete')
+  .alias('rm')
+  .description('Delete one or more chats')
+  .argument('<chatId...>', 'Chat ID(s)')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(wrapAction(async (chatIds: string[], opts: { yes?: boolean }) => {
+    const creds = requireAuth();
+    await deleteChats(creds.accessToken, chatIds, opts.yes);
+  }));
+
+const searchCmd = new Command('search')
+  .description('Search past chats')
+  .argument('<query...>', 'Search text')
+  .option('-l, --limit <n>', 'Max results', '10')
+  .action(wrapAction(async (queryParts: string[], opts: { limit: string }) => {
+    const limit = parseInt(opts.limit, 10);
+    if (isNaN(limit) || limit < 1) throw new Error('Limit must be a positive integer.');
+    const creds = requireAuth();
+    await searchAndPrintChats(creds.accessToken, queryParts.join(' '), limit);
+  }));
+
+// Grouped under `history` so one-shot messages starting with these words
+// (`minara chat delete my limit orders?`) still go to the AI
+const historyCmd = new Command('history')
+  .description('Manage past chats (rename, delete, search)')
+  .addCommand(renameCmd)
+  .addCommand(deleteCmd)
+  .addCommand(searchCmd);
+
+const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+
+const exportCmd = new Command('export')
+  .description('Export a chat to Markdown, JSON or HTML')
+  .argument('<chatId>', 'Chat ID')
+  .option('-f, --format <format>', 'md, json or html (default: from --out extension, else md)')
+  .option('-o, --out <file>', 'Write to a file instead of stdout')
+  .action(wrapAction(async (chatId: string, opts: { format?: string; out?: string }) => {
+    const fromExt = opts.out ? extname(opts.out).slice(1).toLowerCase().replace(/^markdown$/, 'md').replace(/^htm$/, 'html') : '';
+    const format = (opts.format?.toLowerCase() ?? (EXPORT_FORMATS.includes(fromExt as ExportFormat) ? fromExt : 'md')) as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) throw new Error(`Unsupported format: ${opts.format}. Use md, json or html.`);
+
+    const creds = requireAuth();
+    const spin = spinner('Loading conversation…');
+    let memories: ChatMemory[];
+    try {
+      memories = await fetchAllMemories(creds.accessToken, chatId);
+    } finally {
+      spin.stop();
+    }
+    if (memories.length === 0) throw new Error(`No messages found in chat ${chatId}.`);
+
+    // The name is cosmetic — export without it if the lookup fails
+    const chat = await getChat(creds.accessToken, chatId).catch(() => undefined);
+    const content = renderExport({
+      chatId,
+      name: chat?.success ? chat.data?.name : undefined,
+      exportedAt: new Date().toISOString(),
+      messages: orderThread(memories),
+    }, format);
+
+    if (!opts.out) {
+      process.stdout.write(content);
+      return;
     }
+    const path = resolve(opts.out);
+    writeFileSync(path, content, 'utf-8');
+    success(`Exported ${memories.length} message${memories.length === 1 ? '' : 's'} to ${path}`);
+  }));
+
+// ─── templates ───────────────────────────────────────────────────────────
+
+function collectVar(value: string, previous: Record<string, string> = {}): Record<string, string> {
+  const eq = value.indexOf('=');
+  if (eq <= 0) throw new Error(`Invalid --var "${value}". Use key=value.`);
+  return { ...previous, [value.slice(0, eq).trim()]: value.slice(eq + 1) };
 }
 
+const templateAddCmd = new Command('add')
+  .description('Save a prompt template ({{token}}, {{chain}} and other {{placeholders}} are filled at run time)')
+  .argument('<name>', 'Template name')
+  .option('-p, --prompt <text>', 'Prompt text (asked interactively if omitted)')
+  .option('-d, --description <text>', 'Short description')
+  .option('--quality', 'Run in quality mode by default')
+  .option('--thinking', 'Enable thinking mode by default')
+  .option('-f, --force', 'Overwrite an existing template')
+  .action(wrapAction(async (name: string, opts: { prompt?: string; description?: string; quality?: boolean; thinking?: boolean; force?: boolean }) => {
+    if (templateExists(name) && !opts.force) {
+      const ok = await confirm({ message: `Template ${name} already exists. Overwrite?`, default: false });
+      if (!ok) return;
+    }
+    const prompt = opts.prompt ?? await input({
+      message: 'Prompt (use {{token}}, {{chain}} as placeholders):',
+      validate: (v) => (v.trim() ? true : 'Prompt cannot be empty'),
+    });
+    saveTemplate({
+      name,
+      prompt,
+      ...(opts.description ? { description: opts.description } : {}),
+      ...(opts.quality ? { quality: true } : {}),
+      ...(opts.thinking ? { thinking: true } : {}),
+    });
+    const vars = templatePlaceholders(prompt);
+    success(`Saved template ${chalk.bold(name)}${vars.length ? chalk.dim(` (placeholders: ${vars.join(', ')})`) : ''}`);
+    console.log(chalk.dim(`  Run it with: minara chat template run ${name}${vars.includes('token') ? ' --token <ticker>' : ''}`));
+  }));
+
+const templateListCmd = new Command('list')
+  .alias('ls')
+  .description('List saved templates')
+  .action(wrapAction(async () => {
+    const templates = listTemplates();
+    if (isRawJson()) {
+      console.log(JSON.stringify(templates, null, 2));
+      return;
+    }
+    if (templates.length === 0) {
+      info('No templates yet. Create one with: minara chat template add <name>');
+      return;
+    }
+    console.log('');
+    for (const t of templates) {
+      const flags = [t.quality ? chalk.cyan('quality') : chalk.green('fast'), t.thinking && chalk.yellow('thinking')].filter(Boolean);
+      const vars = templatePlaceholders(t.prompt);
+      console.log(`  ${chalk.bold(t.name)}  ${chalk.dim('[')}${flags.join(chalk.dim(', '))}${chalk.dim(']')}${t.description ? `  ${t.description}` : ''}`);
+      console.log(chalk.dim(`    ${t.prompt.replace(/\s+/g, ' ').slice(0, 80)}${vars.length ? `  {${vars.join(', ')}}` : ''}`));
+    }
+    console.log('');
+  }));
+
+const templateRunCmd = new Command('run')
+  .description('Run a saved template through chat')
+  .argument('<name>', 'Template name')
+  .option('-t, --token <ticker|address>', 'Value for {{token}}')
+  .option('--chain <chain>', 'Value for {{chain}}')
+  .option('--var <key=value>', 'Value for any other placeholder (repeatable)', collectVar)
+  .option('--quality', 'Use quality mode (overrides the template)')
+  .option('--fast', 'Use fast mode (overrides the template)')
+  .option('--thinking', 'Enable thinking mode (overrides the template)')
+  .option('--no-thinking', 'Disable thinking mode (overrides the template)')
+  .option('-c, --chat-id <id>', 'Continue existing chat')
+  .option('-m, --model <id>', 'Model to use (see chat --models)')
+  .option('-o, --output <file>', 'Write the answer to a file')
+  .option('--raw', 'Print the answer as raw markdown')
+  .action(wrapAction(async (name: string, opts: {
+    token?: string; chain?: string; var?: Record<string, string>;
+    quality?: boolean; fast?: boolean; thinking?: boolean;
+    chatId?: string; model?: string; output?: string; raw?: boolean;
+  }) => {
+    const template = loadTemplate(name);
+    const values: Record<string, string | undefined> = { ...opts.var, token: opts.token, chain: opts.chain };
+
+    // Ask for anything not given as a flag
+    for (const key of templatePlaceholders(template.prompt)) {
+      if (values[key]?.trim()) continue;
+      if (!process.stdin.isTTY) throw new Error(`Missing value for {{${key}}}. Pass --${key === 'token' || key === 'chain' ? key : `var ${key}=…`}.`);
+      values[key] = await input({ message: `${key}:`, validate: (v) => (v.trim() ? true : `${key} is required`) });
+    }
+
+    const message = fillTemplate(template.prompt, values);
+    if (!isRawJson() && !opts.output) console.log(chalk.dim(`Template ${template.name}: ${message.replace(/\s+/g, ' ').slice(0, 100)}`));
+    await chatAction(message, {
+      chatId: opts.chatId,
+      model: opts.model,
+      output: opts.output,
+      raw: opts.raw,
+      quality: opts.fast ? false : opts.quality ?? template.quality ?? false,
+      thinking: opts.thinking ?? template.thinking,
+    });
+  }));
+
+const templateRemoveCmd = new Command('remove')
+  .alias('rm')
+  .description('Delete a saved template')
+  .argument('<name>', 'Template name')
+  .action(wrapAction(async (name: string) => {
+    deleteTemplate(name);
+    success(`Deleted template ${chalk.bold(name)}`);
+  }));
+
+const templateCmd = new Command('template')
+  .description('Saved prompt templates (~/.minara/templates)')
+  .addCommand(templateAddCmd)
+  .addCommand(templateListCmd)
+  .addCommand(templateRunCmd)
+  .addCommand(templateRemoveCmd);
+
 export const chatCommand = new Command('chat')
   .description('Chat with Minara AI assistant (interactive REPL when no message given)')
-  .argument('[message]', 'Send a single message and exit')
+  .argument('[message]', 'Send a single message and exit (`-` reads it from stdin)')
   .option('-c, --chat-id <id>', 'Continue existing chat')
   .option('--list', 'List past chats')
   .option('--history <chatId>', 'Show chat history')
+  .option('--tail <n>', 'With --history, show only the last n messages')
   .option('--thinking', 'Enable thinking/degen mode')
   .option('--quality', 'Use quality mode instead of the default fast mode')
+  .option('-m, --model <id>', 'Model to use (see --models)')
+  .option('--models', 'List available models')
+  .option('-a, --attach <path>', 'Attach an image (PNG/JPEG) or text/CSV file (repeatable)', collectPath)
+  .option('--raw', 'Print answers as raw markdown (default when stdout is not a TTY)')
+  .addCommand(historyCmd)
+  // Options after a subcommand belong to it (`template run --quality`), not to chat
+  .enablePositionalOptions()
+  .addCommand(exportCmd)
+  .addCommand(templateCmd)
   .action(wrapAction(chatAction));
 
 export const askCommand = new Command('ask')
   .description('Quick AI chat (fast mode) — alias for chat')
-  .argument('[message]', 'Send a single message and exit')
+  .argument('[message]', 'Send a single message and exit (`-` reads it from stdin)')
   .option('-c, --chat-id <id>', 'Continue existing chat')
   .option('--thinking', 'Enable thinking/degen mode')
-  .action(wrapAction(async (messageArg?: string, opts?: { chatId?: string; thinking?: boolean }) => {
-    await chatAction(messageArg, { ...opts, quality: false });
+  .option('-m, --model <id>', 'Model to use (see chat --models)')
+  .option('-a, --attach <path>', 'Attach an image (PNG/JPEG) or text/CSV file (repeatable)', collectPath)
+  .option('--raw', 'Print answers as raw markdown (default when stdout is not a TTY)')
+  .option('-o, --output <file>', 'Write the answer to a file (stdin is appended to the message when piped)')
+  .action(wrapAction(async (messageArg?: string, opts?: Omit<ChatOpts, 'quality'>) => {
+    await chatAction(messageArg, { ...opts, quality: false, stdin: true });
   }));
 
 export const researchCommand = new Command('research')
   .description('Deep AI research (quality mode) — alias for chat --quality')
-  .argument('[message]', 'Send a single message and exit')
+  .argument('[message]', 'Send a single message and exit (`-` reads it from stdin)')
   .option('-c, --chat-id <id>', 'Continue existing chat')
   .option('--thinking', 'Enable thinking/degen mode')
-  .action(wrapAction(async (messageArg?: string, opts?: { chatId?: string; thinking?: boolean }) => {
-    await chatAction(messageArg, { ...opts, quality: true });
+  .option('-m, --model <id>', 'Model to use (see chat --models)')
+  .option('-a, --attach <path>', 'Attach an image (PNG/JPEG) or text/CSV file (repeatable)', collectPath)
+  .option('--raw', 'Print answers as raw markdown (default when stdout is not a TTY)')
+  .option('-o, --output <file>', 'Write the answer to a file (stdin is appended to the message when piped)')
+  .action(wrapAction(async (messageArg?: string, opts?: Omit<ChatOpts, 'quality'>) => {
+    await chatAction(messageArg, { ...opts, quality: true, stdin: true });
   }));
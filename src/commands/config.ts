@@ -4,6 +4,7 @@ import chalk from 'chalk';
 import { loadConfig, saveConfig, getMinaraDir } from '../config.js';
 import { success, info, warn, wrapAction } from '../utils.js';
 import { isTouchIdAvailable } from '../touchid.js';
+import { clearChatHistory, chatHistoryPath } from '../chat-input.js';
 
 export const configCommand = new Command('config')
   .description('View or update CLI configuration')
@@ -11,6 +12,7 @@ export const configCommand = new Command('config')
     const config = loadConfig();
 
     const confirmTx = config.confirmBeforeTransaction !== false;
+    const chatHistory = config.chatHistory !== false;
     const action = await select({
       message: 'Configuration:',
       choices: [
@@ -24,6 +26,10 @@ export const configCommand = new Command('config')
           name: `Transaction Confirmation  ${confirmTx ? chalk.green('[ON]') : chalk.dim('[OFF]')}`,
           value: 'confirmTx',
         },
+        {
+          name: `Chat History  ${chatHistory ? chalk.green('[ON]') : chalk.dim('[OFF]')}`,
+          value: 'chatHistory',
+        },
         { name: 'Show config directory path', value: 'path' },
       ],
     });
@@ -35,6 +41,7 @@ export const configCommand = new Command('config')
         console.log(`  Base URL      : ${chalk.cyan(config.baseUrl)}`);
         console.log(`  Touch ID      : ${config.touchId ? chalk.green('Enabled') : chalk.dim('Disabled')}`);
         console.log(`  Confirm Tx    : ${confirmTx ? chalk.green('Enabled') : chalk.dim('Disabled')}`);
+        console.log(`  Chat History  : ${chatHistory ? chalk.green('Enabled') : chalk.dim('Disabled')}`);
         console.log(`  Config Dir    : ${chalk.dim(getMinaraDir())}`);
         console.log('');
         break;
@@ -126,6 +133,35 @@ export const configCommand = new Command('config')
         break;
       }
 
+      case 'chatHistory': {
+        if (chatHistory) {
+          const disable = await confirm({
+            message: 'Chat REPL input history is currently saved. Disable it?',
+            default: false,
+          });
+          if (disable) {
+            saveConfig({ chatHistory: false });
+            success('Chat history disabled.');
+            const wipe = await confirm({ message: `Delete saved history (${chatHistoryPath()})?`, default: true });
+            if (wipe) {
+              clearChatHistory();
+              success('Saved chat history deleted.');
+            }
+          }
+        } else {
+          const enable = await confirm({
+            message: 'Save chat REPL input history (up-arrow recall across sessions)?',
+            default: true,
+          });
+          if (enable) {
+            saveConfig({ chatHistory: true });
+            success('Chat history enabled.');
+            console.log(chalk.dim(`  Prompts are saved to ${chatHistoryPath()}`));
+          }
+        }
+        break;
+      }
+
       case 'path':
         info(`Config directory: ${getMinaraDir()}`);
         break;
@@ -1,9 +1,15 @@
 import { Command } from 'commander';
-import { input, select } from '@inquirer/prompts';
+import { input, select, confirm } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { searchTokens, getTrendingTokens, getTrendingStocks, searchStocks, getFearGreedIndex, getBitcoinMetrics } from '../api/tokens.js';
-import { spinner, assertApiOk, wrapAction } from '../utils.js';
-import { printKV, printTable, printFearGreed, printCryptoMetrics, TOKEN_COLUMNS, STOCK_COLUMNS } from '../formatters.js';
+import { searchTokens, getTrendingTokens, getTrendingStocks, searchStocks, getFearGreedIndex, getBitcoinMetrics, getProjectInfo, getStockInfo } from '../api/tokens.js';
+import { getGasFees } from '../api/tradeconfig.js';
+import { get } from '../api/client.js';
+import { requireAuth, loadCredentials } from '../config.js';
+import { spinner, assertApiOk, unwrapApi, wrapAction, normalizeChain, warn, lookupToken, formatTokenLabel } from '../utils.js';
+import { printKV, printTable, printFearGreed, printCryptoMetrics, isRawJson, formatValue, formatLabel, compactUsd, TOKEN_COLUMNS, STOCK_COLUMNS, GAS_FEE_COLUMNS } from '../formatters.js';
+import { SUPPORTED_CHAINS } from '../types.js';
+import type { GasFeeInfo, TokenInfo } from '../types.js';
+import { swapCommand } from './swap.js';
 
 function flattenStock(item: Record<string, unknown>): Record<string, unknown> {
   const td = (item.tradeData ?? {}) as Record<string, unknown>;
@@ -158,22 +164,421 @@ const btcCmd = new Command('btc-metrics')
     console.log('');
   }));
 
+// ─── gas ─────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize the gas-fee response into one row per supported chain.
+ * Handles both `GasFeeInfo[]` and an object keyed by chain; chains the API
+ * does not report are kept (fee n/a) and sorted last, cheapest first.
+ */
+function buildGasRows(raw: unknown): Record<string, unknown>[] {
+  let fees: GasFeeInfo[] = [];
+  if (Array.isArray(raw)) {
+    fees = raw as GasFeeInfo[];
+  } else if (raw && typeof raw === 'object') {
+    fees = Object.entries(raw as Record<string, unknown>).map(([chain, v]) =>
+      v && typeof v === 'object' ? { chain, ...(v as Record<string, unknown>) } : { chain, fee: v as string },
+    );
+  }
+
+  const byChain = new Map<string, GasFeeInfo>();
+  for (const f of fees) {
+    const chain = normalizeChain(f.chain !== undefined ? String(f.chain) : undefined);
+    if (chain) byChain.set(chain, f);
+  }
+
+  const feeOf = (r: Record<string, unknown>) => {
+    const n = Number(r.fee);
+    return r.fee === undefined || r.fee === null || r.fee === '' || isNaN(n) ? Infinity : n;
+  };
+  return SUPPORTED_CHAINS
+    .map((chain) => ({ ...byChain.get(chain), chain } as Record<string, unknown>))
+    .sort((a, b) => feeOf(a) - feeOf(b));
+}
+
+const gasCmd = new Command('gas')
+  .description('View current gas fees across all supported chains')
+  .option('-w, --watch <seconds>', 'Refresh every N seconds (Ctrl+C to exit)')
+  .action(wrapAction(async (opts: { watch?: string }) => {
+    const creds = requireAuth();
+
+    let interval: number | undefined;
+    if (opts.watch !== undefined) {
+      interval = parseFloat(opts.watch);
+      if (isNaN(interval) || interval < 1) {
+        throw new Error('--watch must be a number of seconds (minimum 1).');
+      }
+    }
+
+    for (let first = true; ; first = false) {
+      const spin = spinner('Fetching gas fees…');
+      const res = await getGasFees(creds.accessToken);
+      spin.stop();
+
+      if (first) {
+        assertApiOk(res, 'Failed to fetch gas fees');
+      } else if (!res.success) {
+        warn(`Refresh failed: ${res.error?.message ?? 'unknown error'}`);
+      }
+
+      if (res.success) {
+        const rows = buildGasRows(res.data);
+        if (isRawJson()) {
+          printTable(rows, GAS_FEE_COLUMNS);
+        } else {
+          if (interval) console.clear();
+          console.log('');
+          console.log(chalk.bold('Gas Fees:') + chalk.dim(`  ${new Date().toLocaleTimeString()}`));
+          printTable(rows, GAS_FEE_COLUMNS);
+        }
+      }
+
+      if (!interval) break;
+      if (!isRawJson()) console.log(chalk.dim(`  Refreshing every ${interval}s — Ctrl+C to exit`));
+      await new Promise((r) => setTimeout(r, interval! * 1000));
+    }
+    if (!isRawJson()) console.log('');
+  }));
+
+// ─── token ───────────────────────────────────────────────────────────────
+
+/** Descriptions longer than this are cut in the card (full text via --json). */
+const MAX_DESCRIPTION = 600;
+
+interface TokenPosition {
+  balance: number;
+  value: number;
+  price?: number;
+  unrealizedPnl?: number;
+  realizedPnl?: number;
+}
+
+interface TokenDetail {
+  symbol?: string;
+  name?: string;
+  address: string;
+  chain?: string;
+  description?: string;
+  price?: number;
+  priceChange24H?: number;
+  marketCap?: number;
+  fdv?: number;
+  volume24H?: number;
+  holders?: number;
+  socialUrls: Record<string, string>;
+  /** null = not held; undefined = not logged in or unavailable. */
+  position?: TokenPosition | null;
+}
+
+function pick(sources: Record<string, unknown>[], keys: string[]): unknown {
+  for (const src of sources) {
+    for (const k of keys) {
+      const v = src[k];
+      if (v !== undefined && v !== null && v !== '') return v;
+    }
+  }
+  return undefined;
+}
+
+function num(v: unknown): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = Number(v);
+  return isNaN(n) ? undefined : n;
+}
+
+/** Social links from `socialUrls` plus any top-level website / twitter / telegram fields. */
+function collectLinks(sources: Record<string, unknown>[]): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const src of [...sources].reverse()) {
+    for (const bag of [src.socialUrls, src.links]) {
+      if (bag && typeof bag === 'object' && !Array.isArray(bag)) {
+        for (const [k, v] of Object.entries(bag as Record<string, unknown>)) {
+          if (typeof v === 'string' && v.trim()) links[k] = v;
+        }
+      }
+    }
+    for (const k of ['website', 'twitter', 'telegram', 'discord']) {
+      if (typeof src[k] === 'string' && (src[k] as string).trim()) links[k] = src[k] as string;
+    }
+  }
+  return links;
+}
+
+function buildTokenDetail(
+  token: { symbol?: string; name?: string; address: string; chain?: string },
+  project: Record<string, unknown>,
+  market: TokenInfo | undefined,
+): TokenDetail {
+  // Project info wins over the search hit; both shapes vary by token
+  const sources = [project, (market ?? {}) as Record<string, unknown>];
+  return {
+    symbol: token.symbol ?? (pick(sources, ['symbol']) as string | undefined),
+    name: (pick(sources, ['name']) as string | undefined) ?? token.name,
+    address: token.address,
+    chain: token.chain ?? (pick(sources, ['chain']) as string | undefined),
+    description: pick(sources, ['description', 'desc', 'intro']) as string | undefined,
+    price: num(pick(sources, ['price', 'priceUsd'])),
+    priceChange24H: num(pick(sources, ['priceChange24H', 'priceChange24h', 'price_change_24h'])),
+    marketCap: num(pick(sources, ['marketCap', 'market_cap', 'mcap'])),
+    fdv: num(pick(sources, ['fdv', 'fullyDilutedValuation', 'fully_diluted_valuation'])),
+    volume24H: num(pick(sources, ['volume24H', 'volume24h', 'volume_24h', 'volume'])),
+    holders: num(pick(sources, ['holders', 'holderCount', 'holdersCount', 'holder'])),
+    socialUrls: collectLinks(sources),
+  };
+}
+
+/** The user's spot holding of this token, matched by address (and chain when known). */
+function findPosition(rows: Record<string, unknown>[], address: string, chain?: string): TokenPosition | null {
+  const matches = rows.filter((t) => String(t.tokenAddress ?? '').toLowerCase() === address.toLowerCase());
+  const target = normalizeChain(chain);
+  const row = matches.find((t) => target && normalizeChain(String(t.chainId ?? '')) === target) ?? matches[0];
+  if (!row) return null;
+  const balance = Number(row.balance ?? 0);
+  if (!(balance > 0)) return null;
+  const price = num(row.marketPrice);
+  const apiVal = Number(row.portfolioValue ?? 0);
+  return {
+    balance,
+    value: apiVal > 0 ? apiVal : balance * (price ?? 0),
+    price,
+    unrealizedPnl: num(row.unrealizedPnl),
+    realizedPnl: num(row.realizedPnl),
+  };
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const para of text.split(/\n+/)) {
+    let line = '';
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+function printTokenCard(d: TokenDetail, loggedIn: boolean): void {
+  const row = (label: string, value: string) => console.log(`  ${chalk.dim(label.padEnd(12))} : ${value}`);
+  const pnl = (n?: number) => {
+    if (n === undefined) return chalk.dim('—');
+    const abs = Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    if (n === 0) return chalk.dim(`$${abs}`);
+    return n > 0 ? chalk.green(`+$${abs}`) : chalk.red(`-$${abs}`);
+  };
+
+  console.log('');
+  console.log(formatTokenLabel(d) + (d.chain ? chalk.cyan(`  [${d.chain}]`) : ''));
+  console.log(`  ${chalk.yellow(d.address)}`);
+  console.log('');
+  const change = d.priceChange24H !== undefined ? `  ${formatValue(d.priceChange24H, 'change')} 24h` : '';
+  row('Price', d.price !== undefined ? formatValue(d.price, 'price') + change : chalk.dim('—'));
+  row('Market Cap', compactUsd(d.marketCap));
+  row('FDV', compactUsd(d.fdv));
+  row('Volume 24h', compactUsd(d.volume24H));
+  if (d.holders !== undefined) row('Holders', d.holders.toLocaleString('en-US'));
+
+  if (d.description) {
+    const text = d.description.length > MAX_DESCRIPTION ? d.description.slice(0, MAX_DESCRIPTION - 1).trimEnd() + '…' : d.description;
+    console.log('');
+    console.log(chalk.bold('About:'));
+    for (const line of wrapText(text, 76)) console.log(`  ${line}`);
+  }
+
+  const links = Object.entries(d.socialUrls);
+  if (links.length > 0) {
+    console.log('');
+    console.log(chalk.bold('Links:'));
+    for (const [k, url] of links) row(formatLabel(k), chalk.cyan.underline(url));
+  }
+
+  console.log('');
+  console.log(chalk.bold('Your Position:'));
+  if (!loggedIn) {
+    console.log(chalk.dim('  Log in to see your holdings: minara login'));
+  } else if (d.position === undefined) {
+    console.log(chalk.dim('  Could not fetch your holdings.'));
+  } else if (d.position === null) {
+    console.log(chalk.dim(`  You don't hold ${d.symbol ? `$${d.symbol}` : 'this token'}.`));
+  } else {
+    const p = d.position;
+    row('Balance', `${p.balance.toLocaleString('en-US', { maximumFractionDigits: 6 })} ${d.symbol ?? ''}`.trimEnd());
+    row('Value', formatValue(p.value, 'value'));
+    row('Unrealized', pnl(p.unrealizedPnl));
+    row('Realized', pnl(p.realizedPnl));
+  }
+  console.log('');
+}
+
+const tokenCmd = new Command('token')
+  .description('Token deep-dive: price, market cap, FDV, volume, links and your position')
+  .argument('[token]', 'Ticker ($BONK) or contract address')
+  .action(wrapAction(async (tokenArg?: string) => {
+    const token = await lookupToken(tokenArg ?? await input({ message: 'Token (ticker or contract address):' }));
+    const creds = loadCredentials();
+
+    const spin = spinner('Fetching token details…');
+    const [projectRes, searchRes, pnlRes] = await Promise.all([
+      getProjectInfo(token.symbol ?? '', token.address),
+      searchTokens(token.address),
+      creds?.accessToken
+        ? get<Record<string, unknown>[]>('/users/pnls/all', { token: creds.accessToken })
+        : Promise.resolve(undefined),
+    ]);
+    spin.stop();
+
+    const project = projectRes.success && projectRes.data && typeof projectRes.data === 'object'
+      ? projectRes.data as Record<string, unknown>
+      : {};
+    const hits = searchRes.success && Array.isArray(searchRes.data) ? searchRes.data : [];
+    const market = hits.find((t) => t.address?.toLowerCase() === token.address.toLowerCase());
+    if (!projectRes.success && !market) {
+      throw new Error(`Failed to fetch token details: ${projectRes.error?.message ?? 'Unknown error'}`);
+    }
+
+    const detail = buildTokenDetail(token, project, market);
+    if (pnlRes?.success) {
+      detail.position = findPosition(Array.isArray(pnlRes.data) ? pnlRes.data : [], token.address, detail.chain);
+    }
+
+    if (isRawJson()) {
+      console.log(JSON.stringify({ ...detail, project }, null, 2));
+      return;
+    }
+    printTokenCard(detail, !!creds?.accessToken);
+  }));
+
+// ─── stock ───────────────────────────────────────────────────────────────
+
+/** Company / valuation fields shown under "Fundamentals" when present. */
+const FUNDAMENTAL_KEYS = [
+  'sector', 'industry', 'exchange', 'peRatio', 'pe', 'eps', 'dividendYield', 'beta',
+  'week52High', 'week52Low', 'high52Week', 'low52Week', 'sharesOutstanding',
+  'revenue', 'netIncome', 'employees', 'ceo', 'headquarters', 'website',
+];
+
+interface StockDetail {
+  symbol?: string;
+  name?: string;
+  price?: number;
+  priceChange24H?: number;
+  volume24H?: number;
+  marketCap?: number;
+  address?: string;
+  chain?: string;
+  fundamentals: Record<string, unknown>;
+}
+
+function buildStockDetail(raw: Record<string, unknown>): StockDetail {
+  const flat = flattenStock(raw);
+  const td = (raw.tradeData ?? {}) as Record<string, unknown>;
+  const token = (raw.token && typeof raw.token === 'object' ? raw.token : {}) as Record<string, unknown>;
+  const sources = [raw, token, td];
+
+  const fundamentals: Record<string, unknown> = {};
+  const nested = pick([raw], ['fundamentals', 'financials', 'companyInfo', 'profile']);
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    for (const [k, v] of Object.entries(nested as Record<string, unknown>)) {
+      if (v !== null && typeof v !== 'object') fundamentals[k] = v;
+    }
+  }
+  for (const k of FUNDAMENTAL_KEYS) {
+    const v = pick([raw, td], [k]);
+    if (v !== undefined && typeof v !== 'object' && !(k in fundamentals)) fundamentals[k] = v;
+  }
+
+  return {
+    symbol: flat.symbol as string | undefined,
+    name: flat.name as string | undefined,
+    price: num(flat.price ?? raw.price),
+    priceChange24H: num(flat.priceChange24H ?? raw.priceChange24H),
+    volume24H: num(flat.volume24H ?? raw.volume24H),
+    marketCap: num(flat.marketCap ?? raw.marketCap),
+    address: pick(sources, ['address', 'tokenAddress', 'contractAddress', 'mint']) as string | undefined,
+    chain: pick(sources, ['chain', 'chainName', 'chainId']) as string | undefined,
+    fundamentals,
+  };
+}
+
+function printStockDetail(d: StockDetail): void {
+  const row = (label: string, value: string) => console.log(`  ${chalk.dim(label.padEnd(12))} : ${value}`);
+
+  console.log('');
+  console.log(chalk.bold(d.symbol ?? '?') + (d.name ? `${chalk.dim(' —')} ${d.name}` : '') + (d.chain ? chalk.cyan(`  [${d.chain}]`) : ''));
+  console.log('');
+  const change = d.priceChange24H !== undefined ? `  ${formatValue(d.priceChange24H, 'change')} 24h` : '';
+  row('Price', d.price !== undefined ? formatValue(d.price, 'price') + change : chalk.dim('—'));
+  row('Market Cap', compactUsd(d.marketCap));
+  row('Volume 24h', compactUsd(d.volume24H));
+  row('Token', d.address ? chalk.yellow(d.address) : chalk.dim('— (no on-chain token found)'));
+
+  if (Object.keys(d.fundamentals).length > 0) {
+    console.log('');
+    console.log(chalk.bold('Fundamentals:'));
+    printKV(d.fundamentals);
+  }
+  console.log('');
+}
+
+const stockCmd = new Command('stock')
+  .description('Tokenized stock detail: price, market cap, fundamentals, token address')
+  .argument('[symbol]', 'Stock symbol (e.g. TSLA)')
+  .action(wrapAction(async (symbolArg?: string) => {
+    const symbol = (symbolArg ?? await input({ message: 'Stock symbol:' })).trim().replace(/^\$/, '');
+
+    const spin = spinner(`Fetching ${symbol.toUpperCase()}…`);
+    const res = await getStockInfo(symbol);
+    spin.stop();
+    const raw = unwrapApi(res, `Failed to fetch stock info for ${symbol}`);
+
+    if (isRawJson()) {
+      console.log(JSON.stringify(raw, null, 2));
+      return;
+    }
+    if (!raw || typeof raw !== 'object') throw new Error(`No stock info found for ${symbol}.`);
+
+    const detail = buildStockDetail(raw);
+    printStockDetail(detail);
+
+    if (!detail.address || !process.stdin.isTTY) return;
+    const buy = await confirm({ message: `Buy ${detail.symbol ?? symbol} via swap?`, default: false });
+    if (!buy) return;
+
+    // Hand off to the regular swap flow (amount, confirmation, Touch ID)
+    const chain = normalizeChain(detail.chain !== undefined ? String(detail.chain) : undefined);
+    await swapCommand.parseAsync(
+      ['--side', 'buy', '--token', detail.address, ...(chain ? ['--chain', chain] : [])],
+      { from: 'user' },
+    );
+  }));
+
 // ─── parent ──────────────────────────────────────────────────────────────
 
 export const discoverCommand = new Command('discover')
-  .description('Market discovery — trending, search, market indicators')
+  .description('Market discovery — trending, search, token / stock details, market indicators, gas fees')
   .addCommand(trendingCmd)
   .addCommand(searchCmd)
+  .addCommand(tokenCmd)
+  .addCommand(stockCmd)
   .addCommand(fearGreedCmd)
   .addCommand(btcCmd)
+  .addCommand(gasCmd)
   .action(wrapAction(async () => {
     const action = await select({
       message: 'Discover:',
       choices: [
         { name: 'Trending tokens / stocks', value: 'trending' },
         { name: 'Search tokens / stocks', value: 'search' },
+        { name: 'Token details', value: 'token' },
+        { name: 'Stock details', value: 'stock' },
         { name: 'Fear & Greed Index', value: 'fear-greed' },
         { name: 'Bitcoin metrics', value: 'btc-metrics' },
+        { name: 'Gas fees by chain', value: 'gas' },
       ],
     });
     const sub = discoverCommand.commands.find((c) => c.name() === action);
@@ -5,7 +5,78 @@ import * as loApi from '../api/limitorder.js';
 import { requireAuth } from '../config.js';
 import { success, info, spinner, assertApiOk, selectChain, wrapAction, requireTransactionConfirmation, lookupToken, formatTokenLabel } from '../utils.js';
 import { requireTouchId } from '../touchid.js';
-import { printTxResult, printTable, LIMIT_ORDER_COLUMNS } from '../formatters.js';
+import { printTxResult, printTable, printKV, formatValue, isRawJson, LIMIT_ORDER_COLUMNS } from '../formatters.js';
+import type { LimitOrderInfo, UpdateLimitOrderDto } from '../types.js';
+
+// ─── shared helpers ──────────────────────────────────────────────────────
+
+interface OrderFlags {
+  side?: string;
+  condition?: string;
+  price?: string;
+  amount?: string;
+  expiry?: string;
+}
+
+/** Validate order flags upfront, before any interactive prompts or API calls. */
+function validateOrderFlags(opts: OrderFlags): void {
+  if (opts.side && !['buy', 'sell'].includes(opts.side)) {
+    throw new Error(`Invalid side: ${opts.side}. Must be "buy" or "sell".`);
+  }
+  if (opts.condition && !['above', 'below'].includes(opts.condition)) {
+    throw new Error(`Invalid condition: ${opts.condition}. Must be "above" or "below".`);
+  }
+  if (opts.price !== undefined) {
+    const price = parseFloat(opts.price);
+    if (isNaN(price) || price <= 0) {
+      throw new Error('Target price must be a positive number.');
+    }
+  }
+  if (opts.amount !== undefined) {
+    const amountVal = parseFloat(opts.amount);
+    if (isNaN(amountVal) || amountVal <= 0) {
+      throw new Error('Amount must be a positive number.');
+    }
+  }
+  if (opts.expiry !== undefined) {
+    const expiryVal = parseFloat(opts.expiry);
+    if (isNaN(expiryVal) || expiryVal <= 0) {
+      throw new Error('Expiry must be a positive number of hours.');
+    }
+  }
+}
+
+/** Interactive order picker used when no ID is given. Returns null if there are no orders. */
+async function pickOrder(token: string, message: string): Promise<string | null> {
+  const spin = spinner('Fetching orders…');
+  const listRes = await loApi.listLimitOrders(token);
+  spin.stop();
+  const orders = listRes.data;
+  if (!orders || orders.length === 0) return null;
+
+  return select({
+    message,
+    choices: orders.map((o) => ({
+      name: `[${o.id.slice(0, 12)}…] ${o.side ?? ''} @ $${o.targetPrice ?? '?'}  status=${o.status ?? '?'}`,
+      value: o.id,
+    })),
+  });
+}
+
+async function fetchOrder(token: string, id: string): Promise<LimitOrderInfo> {
+  const spin = spinner('Fetching limit order…');
+  const res = await loApi.getLimitOrder(token, id);
+  spin.stop();
+  assertApiOk(res, 'Failed to fetch limit order');
+  return res.data!;
+}
+
+/** Statuses after which an order can no longer be updated. */
+const CLOSED_STATUSES = /^(filled|completed|cancell?ed|expired|failed)$/i;
+
+function formatExpiry(expiredAt?: number): string {
+  return expiredAt ? new Date(expiredAt * 1000).toLocaleString() : chalk.dim('—');
+}
 
 // ─── create ──────────────────────────────────────────────────────────────
 
@@ -23,30 +94,7 @@ const createCmd = new Command('create')
     const creds = requireAuth();
 
     // Validate all flags upfront before any interactive prompts
-    if (opts.side && !['buy', 'sell'].includes(opts.side)) {
-      throw new Error(`Invalid side: ${opts.side}. Must be "buy" or "sell".`);
-    }
-    if (opts.condition && !['above', 'below'].includes(opts.condition)) {
-      throw new Error(`Invalid condition: ${opts.condition}. Must be "above" or "below".`);
-    }
-    if (opts.price !== undefined) {
-      const price = parseFloat(opts.price);
-      if (isNaN(price) || price <= 0) {
-        throw new Error('Target price must be a positive number.');
-      }
-    }
-    if (opts.amount !== undefined) {
-      const amountVal = parseFloat(opts.amount);
-      if (isNaN(amountVal) || amountVal <= 0) {
-        throw new Error('Amount must be a positive number.');
-      }
-    }
-    if (opts.expiry !== undefined) {
-      const expiryVal = parseFloat(opts.expiry);
-      if (isNaN(expiryVal) || expiryVal <= 0) {
-        throw new Error('Expiry must be a positive number of hours.');
-      }
-    }
+    validateOrderFlags(opts);
 
     const chain = opts.chain ?? await selectChain('Chain:', true);
 
@@ -137,6 +185,136 @@ const listCmd = new Command('list')
     console.log('');
   }));
 
+// ─── show ────────────────────────────────────────────────────────────────
+
+const showCmd = new Command('show')
+  .description('Show details of a limit order')
+  .argument('[id]', 'Limit order ID')
+  .action(wrapAction(async (idArg?: string) => {
+    const creds = requireAuth();
+
+    const id = idArg ?? await pickOrder(creds.accessToken, 'Select order:');
+    if (!id) { info('No limit orders.'); return; }
+
+    const order = await fetchOrder(creds.accessToken, id);
+    if (isRawJson()) { printKV(order); return; }
+
+    const side = String(order.side ?? '').toLowerCase();
+    const token = order.outputTokenSymbol ?? order.inputTokenSymbol;
+    console.log('');
+    console.log(chalk.bold('Limit Order:'));
+    console.log(`  ID        : ${chalk.dim(order.id)}`);
+    console.log(`  Status    : ${formatValue(order.status, 'status')}`);
+    console.log(`  Chain     : ${chalk.cyan(order.chain ?? '—')}`);
+    console.log(`  Side      : ${side === 'buy' ? chalk.green.bold('BUY') : chalk.red.bold('SELL')}`);
+    console.log(`  Token     : ${token ? chalk.bold('$' + token) : chalk.dim('—')}`);
+    console.log(`  Address   : ${chalk.yellow(order.targetTokenCA ?? '—')}`);
+    console.log(`  Condition : price ${order.priceCondition} $${order.targetPrice}`);
+    console.log(`  Amount    : $${order.amount}`);
+    console.log(`  Created   : ${order.createdAt ? new Date(order.createdAt).toLocaleString() : chalk.dim('—')}`);
+    console.log(`  Expires   : ${formatExpiry(order.expiredAt)}`);
+    console.log('');
+  }));
+
+// ─── update ──────────────────────────────────────────────────────────────
+
+const updateCmd = new Command('update')
+  .alias('edit')
+  .description('Update the price, amount, condition or expiry of a limit order')
+  .argument('[id]', 'Limit order ID')
+  .option('-y, --yes', 'Skip transaction confirmation (Touch ID still required)')
+  .option('--condition <condition>', 'Price condition (above or below)')
+  .option('--price <number>', 'Target price in USD')
+  .option('--amount <number>', 'Amount in USD')
+  .option('--expiry <hours>', 'New expiry, in hours from now')
+  .action(wrapAction(async (idArg: string | undefined, opts: OrderFlags & { yes?: boolean }) => {
+    const creds = requireAuth();
+
+    // Validate all flags upfront before any interactive prompts
+    validateOrderFlags(opts);
+
+    const id = idArg ?? await pickOrder(creds.accessToken, 'Select order to update:');
+    if (!id) { info('No orders to update.'); return; }
+
+    const order = await fetchOrder(creds.accessToken, id);
+    if (order.status && CLOSED_STATUSES.test(order.status)) {
+      throw new Error(`Limit order ${order.id} is ${order.status.toLowerCase()} and can no longer be updated.`);
+    }
+    const hasFlags = [opts.condition, opts.price, opts.amount, opts.expiry].some((v) => v !== undefined);
+
+    let priceCondition = opts.condition ?? order.priceCondition;
+    let targetPrice = opts.price !== undefined ? parseFloat(opts.price) : order.targetPrice;
+    let amount = opts.amount ?? order.amount;
+    let expireHours = opts.expiry !== undefined ? parseFloat(opts.expiry) : undefined;
+
+    // ── Interactive mode (no flags): prompt with current values as defaults
+    if (!hasFlags) {
+      priceCondition = await select({
+        message: 'Trigger when price is:',
+        choices: [
+          { name: 'Above target price', value: 'above' },
+          { name: 'Below target price', value: 'below' },
+        ],
+        default: order.priceCondition,
+      });
+      targetPrice = (await numberPrompt({ message: 'Target price (USD):', default: order.targetPrice, required: true }))!;
+      if (targetPrice <= 0) throw new Error('Target price must be a positive number.');
+      amount = await input({
+        message: 'Amount (USD):',
+        default: order.amount,
+        validate: (v) => (parseFloat(v) > 0 ? true : 'Enter positive number'),
+      });
+      const expiryRaw = await input({
+        message: 'Expire after (hours from now, blank to keep current):',
+        validate: (v) => (v.trim() === '' || parseFloat(v) > 0 ? true : 'Enter positive number'),
+      });
+      expireHours = expiryRaw.trim() === '' ? undefined : parseFloat(expiryRaw);
+    }
+
+    // `1` and `1.0` are the same amount; keep the order's own spelling
+    if (parseFloat(amount) === parseFloat(order.amount)) amount = order.amount;
+
+    const dto: UpdateLimitOrderDto = {};
+    if (priceCondition !== order.priceCondition) dto.priceCondition = priceCondition;
+    if (targetPrice !== order.targetPrice) dto.targetPrice = targetPrice;
+    if (amount !== order.amount) dto.amount = amount;
+    if (expireHours !== undefined) dto.expiredAt = Math.floor(Date.now() / 1000) + expireHours * 3600;
+
+    if (Object.keys(dto).length === 0) {
+      info('Nothing to update.');
+      return;
+    }
+
+    const arrow = (before: string, after: string) =>
+      before === after ? before : `${chalk.dim(before)} → ${chalk.bold(after)}`;
+    console.log('');
+    console.log(chalk.bold('Update Limit Order:'));
+    console.log(`  ID        : ${chalk.dim(order.id)}`);
+    console.log(`  Chain     : ${chalk.cyan(order.chain)}`);
+    console.log(`  Side      : ${order.side}`);
+    console.log(`  Condition : ${arrow(`price ${order.priceCondition} $${order.targetPrice}`, `price ${priceCondition} $${targetPrice}`)}`);
+    console.log(`  Amount    : ${arrow(`$${order.amount}`, `$${amount}`)}`);
+    console.log(`  Expires   : ${arrow(formatExpiry(order.expiredAt), formatExpiry(dto.expiredAt ?? order.expiredAt))}`);
+    console.log('');
+
+    if (!opts.yes) {
+      const token = { address: order.targetTokenCA, symbol: order.outputTokenSymbol ?? order.inputTokenSymbol };
+      await requireTransactionConfirmation(
+        `Update limit ${order.side} · $${amount} · price ${priceCondition} $${targetPrice} · ${order.chain}`,
+        token,
+        { chain: order.chain, side: order.side, amount: `$${amount}` },
+      );
+    }
+    await requireTouchId();
+
+    const spin = spinner('Updating limit order…');
+    const res = await loApi.updateLimitOrder(creds.accessToken, id, dto);
+    spin.stop();
+    assertApiOk(res, 'Failed to update limit order');
+    success('Limit order updated!');
+    printTxResult(res.data);
+  }));
+
 // ─── cancel ──────────────────────────────────────────────────────────────
 
 const cancelCmd = new Command('cancel')
@@ -146,22 +324,8 @@ const cancelCmd = new Command('cancel')
   .action(wrapAction(async (idArg?: string, opts?: { yes?: boolean }) => {
     const creds = requireAuth();
 
-    let id = idArg;
-    if (!id) {
-      const spin = spinner('Fetching orders…');
-      const listRes = await loApi.listLimitOrders(creds.accessToken);
-      spin.stop();
-      const orders = listRes.data;
-      if (!orders || orders.length === 0) { info('No orders to cancel.'); return; }
-
-      id = await select({
-        message: 'Select order to cancel:',
-        choices: orders.map((o) => ({
-          name: `[${o.id.slice(0, 12)}…] ${o.side ?? ''} @ $${o.targetPrice ?? '?'}  status=${o.status ?? '?'}`,
-          value: o.id,
-        })),
-      });
-    }
+    const id = idArg ?? await pickOrder(creds.accessToken, 'Select order to cancel:');
+    if (!id) { info('No orders to cancel.'); return; }
 
     if (!opts?.yes) {
       const ok = await confirm({ message: `Cancel order ${id}?`, default: false });
@@ -169,7 +333,7 @@ const cancelCmd = new Command('cancel')
     }
 
     const spin = spinner('Cancelling…');
-    const res = await loApi.cancelLimitOrder(creds.accessToken, id!);
+    const res = await loApi.cancelLimitOrder(creds.accessToken, id);
     spin.stop();
     assertApiOk(res, 'Failed to cancel limit order');
     success('Limit order cancelled.');
@@ -179,9 +343,11 @@ const cancelCmd = new Command('cancel')
 
 export const limitOrderCommand = new Command('limit-order')
   .alias('lo')
-  .description('Limit orders — create, list, cancel')
+  .description('Limit orders — create, list, show, update, cancel')
   .addCommand(createCmd)
   .addCommand(listCmd)
+  .addCommand(showCmd)
+  .addCommand(updateCmd)
   .addCommand(cancelCmd)
   .action(wrapAction(async () => {
     const action = await select({
@@ -189,6 +355,8 @@ export const limitOrderCommand = new Command('limit-order')
       choices: [
         { name: 'Create a new limit order', value: 'create' },
         { name: 'List orders', value: 'list' },
+        { name: 'Show order details', value: 'show' },
+        { name: 'Update an order', value: 'update' },
         { name: 'Cancel an order', value: 'cancel' },
       ],
     });
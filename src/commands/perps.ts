@@ -5,7 +5,8 @@ import * as perpsApi from '../api/perps.js';
 import { requireAuth } from '../config.js';
 import { success, info, warn, spinner, assertApiOk, formatOrderSide, wrapAction, requireTransactionConfirmation, validateAddress } from '../utils.js';
 import { requireTouchId } from '../touchid.js';
-import { printTxResult, printTable, printKV, POSITION_COLUMNS, FILL_COLUMNS } from '../formatters.js';
+import { printTxResult, printTable, printKV, isRawJson, POSITION_COLUMNS, FILL_COLUMNS } from '../formatters.js';
+import { toSeries, toMillis, maxDrawdown, sharpeRatio, areaChart } from '../charts.js';
 import type { PerpsOrder, PerpSubAccount } from '../types.js';
 
 // ─── shared helpers ──────────────────────────────────────────────────────
@@ -18,7 +19,7 @@ const pnlFmt = (n: number) => {
   return color(`${n >= 0 ? '+' : ''}${fmt(n)}`);
 };
 
-function getSubAccountId(w: PerpSubAccount): string {
+export function getSubAccountId(w: PerpSubAccount): string {
   return String(w._id ?? w.id ?? w.subAccountId ?? '');
 }
 
@@ -42,7 +43,7 @@ interface WalletSummary {
  *   withdrawable, assetPositions, ... }
  * But we also handle the flattened shape used in our PerpSubAccount type as fallback.
  */
-function normalizeWalletSummary(raw: Record<string, unknown>): WalletSummary {
+export function normalizeWalletSummary(raw: Record<string, unknown>): WalletSummary {
   const margin = raw.marginSummary as Record<string, unknown> | undefined;
   if (margin) {
     const rawPositions = Array.isArray(raw.assetPositions)
@@ -100,7 +101,7 @@ function normalizePosition(pos: Record<string, unknown>): Record<string, unknown
   };
 }
 
-async function fetchSubAccounts(token: string): Promise<PerpSubAccount[]> {
+export async function fetchSubAccounts(token: string): Promise<PerpSubAccount[]> {
   const res = await perpsApi.listSubAccounts(token);
   if (!res.success || !res.data) return [];
   const raw = res.data;
@@ -207,7 +208,7 @@ interface AutopilotState {
   raw?: Record<string, unknown>;
 }
 
-function parseStrategies(raw: unknown): Record<string, unknown>[] {
+export function parseStrategies(raw: unknown): Record<string, unknown>[] {
   if (Array.isArray(raw)) return raw as Record<string, unknown>[];
   if (raw && typeof raw === 'object') {
     const inner = (raw as Record<string, unknown>).strategies
@@ -240,7 +241,7 @@ function extractStrategyName(s: Record<string, unknown>): string | undefined {
   return undefined;
 }
 
-function strategyToState(s: Record<string, unknown>): AutopilotState {
+export function strategyToState(s: Record<string, unknown>): AutopilotState {
   const status = String(
     s.status ?? s.state ?? s.isActive ?? s.enabled ?? '',
   ).toLowerCase();
@@ -305,6 +306,26 @@ function strategyDisplayName(s: AutopilotState): string {
   return 'Unnamed';
 }
 
+/**
+ * Manual trading is blocked while an autopilot strategy is active on the
+ * wallet. Prints why and returns true when the caller should abort.
+ */
+async function isAutopilotLocked(token: string, wallet: PerpSubAccount, action: string): Promise<boolean> {
+  const apSpin = spinner('Checking autopilot…');
+  const allStates = await getAllAutopilotStates(token);
+  apSpin.stop();
+  const walletStrategies = getAllStrategiesForWallet(allStates, getSubAccountId(wallet), !!wallet.isDefault);
+  const activeStrategy = walletStrategies.find((s) => s.active);
+  if (!activeStrategy) return false;
+
+  console.log('');
+  warn(`Autopilot "${strategyDisplayName(activeStrategy)}" is ON for "${wallet.name ?? 'this wallet'}". Manual ${action} is disabled while AI is trading.`);
+  info(`Trading symbols: ${activeStrategy.symbols?.join(', ') ?? 'unknown'}`);
+  info('Turn off autopilot first: minara perps autopilot');
+  console.log('');
+  return true;
+}
+
 /** Normalize supported-symbols response: handles string[], object[] with symbol/name key, or nested structures. */
 function extractSymbolNames(data: unknown): string[] {
   const fallback = ['BTC', 'ETH', 'SOL'];
@@ -556,20 +577,7 @@ const orderCmd = new Command('order')
     const { wallet, walletId } = resolved;
 
     // Check autopilot for this wallet
-    const apSpin = spinner('Checking autopilot…');
-    const allStates = await getAllAutopilotStates(creds.accessToken);
-    apSpin.stop();
-    const wId = getSubAccountId(wallet);
-    const walletStrategies = getAllStrategiesForWallet(allStates, wId, !!wallet.isDefault);
-    const activeStrategy = walletStrategies.find((s) => s.active);
-    if (activeStrategy) {
-      console.log('');
-      warn(`Autopilot "${strategyDisplayName(activeStrategy)}" is ON for "${wallet.name ?? 'this wallet'}". Manual order placement is disabled while AI is trading.`);
-      info(`Trading symbols: ${activeStrategy.symbols?.join(', ') ?? 'unknown'}`);
-      info('Turn off autopilot first: minara perps autopilot');
-      console.log('');
-      return;
-    }
+    if (await isAutopilotLocked(creds.accessToken, wallet, 'order placement')) return;
 
     // Determine if running in non-interactive mode
     const nonInteractive = opts.side && opts.symbol && opts.size;
@@ -785,6 +793,45 @@ const orderCmd = new Command('order')
     printTxResult(res.data);
   }));
 
+// ─── open orders ─────────────────────────────────────────────────────────
+
+/**
+ * Open orders for a wallet — sub-accounts via the Minara API, the default
+ * account straight from Hyperliquid. Returns null if the address is unknown.
+ */
+async function fetchOpenOrders(
+  token: string,
+  wallet: PerpSubAccount,
+  walletId: string | undefined,
+): Promise<Record<string, unknown>[] | null> {
+  const spin = spinner('Fetching open orders…');
+  let openOrders: Record<string, unknown>[];
+
+  if (walletId && wallet.address) {
+    // Same source as the default wallet, so orders carry type / TIF / trigger fields
+    openOrders = await perpsApi.getOpenOrders(wallet.address) as unknown as Record<string, unknown>[];
+  } else if (walletId) {
+    const ordRes = await perpsApi.getSubAccountOpenOrders(token, getSubAccountId(wallet));
+    openOrders = ordRes.success && Array.isArray(ordRes.data) ? ordRes.data as Record<string, unknown>[] : [];
+  } else {
+    const address = await perpsApi.getPerpsAddress(token);
+    if (!address) {
+      spin.stop();
+      warn('Could not find your perps wallet address.');
+      return null;
+    }
+    openOrders = await perpsApi.getOpenOrders(address) as unknown as Record<string, unknown>[];
+  }
+  spin.stop();
+  return openOrders;
+}
+
+function openOrderLabel(o: Record<string, unknown>): string {
+  const side = o.side === 'B' ? chalk.green('BUY') : chalk.red('SELL');
+  const px = `$${Number(o.limitPx ?? 0).toLocaleString()}`;
+  return `${chalk.bold(String(o.coin ?? '').padEnd(6))} ${side}  ${o.sz} @ ${chalk.yellow(px)}  ${chalk.dim(`oid:${o.oid}`)}`;
+}
+
 // ─── cancel ──────────────────────────────────────────────────────────────
 
 const cancelCmd = new Command('cancel')
@@ -798,23 +845,8 @@ const cancelCmd = new Command('cancel')
     if (!resolved) return;
     const { wallet, walletId } = resolved;
 
-    const spin = spinner('Fetching open orders…');
-    const wId = getSubAccountId(wallet);
-    let openOrders;
-
-    if (walletId) {
-      const ordRes = await perpsApi.getSubAccountOpenOrders(creds.accessToken, wId);
-      openOrders = ordRes.success && Array.isArray(ordRes.data) ? ordRes.data as Record<string, unknown>[] : [];
-    } else {
-      const address = await perpsApi.getPerpsAddress(creds.accessToken);
-      if (!address) {
-        spin.stop();
-        warn('Could not find your perps wallet address.');
-        return;
-      }
-      openOrders = await perpsApi.getOpenOrders(address) as unknown as Record<string, unknown>[];
-    }
-    spin.stop();
+    const openOrders = await fetchOpenOrders(creds.accessToken, wallet, walletId);
+    if (!openOrders) return;
 
     if (openOrders.length === 0) {
       info(`No open orders on ${getSubAccountLabel(wallet)}.`);
@@ -823,14 +855,7 @@ const cancelCmd = new Command('cancel')
 
     const selected = await select({
       message: 'Select order to cancel:',
-      choices: openOrders.map((o) => {
-        const side = o.side === 'B' ? chalk.green('BUY') : chalk.red('SELL');
-        const px = `$${Number(o.limitPx ?? 0).toLocaleString()}`;
-        return {
-          name: `${chalk.bold(String(o.coin ?? '').padEnd(6))} ${side}  ${o.sz} @ ${chalk.yellow(px)}  ${chalk.dim(`oid:${o.oid}`)}`,
-          value: o,
-        };
-      }),
+      choices: openOrders.map((o) => ({ name: openOrderLabel(o), value: o })),
     });
 
     if (!opts.yes) {
@@ -853,6 +878,167 @@ const cancelCmd = new Command('cancel')
     printTxResult(res.data);
   }));
 
+// ─── modify ──────────────────────────────────────────────────────────────
+
+interface ModifyOpts {
+  wallet?: string;
+  yes?: boolean;
+  oid?: string;
+  price?: string;
+  size?: string;
+}
+
+function positiveNumberInput(label: string): (v: string) => true | string {
+  return (v) => (Number(v) > 0 ? true : `${label} must be a positive number`);
+}
+
+const TIFS = new Set(['Gtc', 'Alo', 'Ioc']);
+
+interface ModifiableOrderType {
+  isTrigger: boolean;
+  /** Payload price and order type for the new (trigger or limit) price. */
+  build(newPx: string): Pick<PerpsOrder, 'p' | 't'>;
+}
+
+/**
+ * Work out how to re-submit an open order so a trigger (TP/SL) order stays a
+ * trigger and a limit keeps its TIF. For trigger orders the new price moves
+ * the trigger; a market trigger's limit price (its slippage cap) shifts by
+ * the same ratio. Throws when the order type can't be determined.
+ */
+function modifiableOrderType(o: Record<string, unknown>): ModifiableOrderType {
+  const orderType = typeof o.orderType === 'string' ? o.orderType : undefined;
+  const isTrigger = o.isTrigger === true || (orderType !== undefined && /stop|take profit|trigger/i.test(orderType));
+
+  if (isTrigger) {
+    const tpsl = o.tpsl === 'tp' || o.tpsl === 'sl' ? o.tpsl
+      : orderType && /take profit/i.test(orderType) ? 'tp'
+      : orderType && /stop/i.test(orderType) ? 'sl'
+      : undefined;
+    if (!tpsl) throw new Error(`Can't tell whether order ${o.oid} is a take-profit or stop-loss. Cancel and re-place it instead.`);
+    const isMarket = typeof o.isMarket === 'boolean' ? o.isMarket : /market/i.test(orderType ?? '');
+    const oldTrigger = Number(o.triggerPx);
+    const oldLimit = Number(o.limitPx);
+    return {
+      isTrigger,
+      build: (newPx) => ({
+        p: isMarket && oldTrigger > 0 && oldLimit > 0
+          ? String(Number((Number(newPx) * oldLimit / oldTrigger).toPrecision(6)))
+          : newPx,
+        t: { trigger: { triggerPx: newPx, tpsl, isMarket } },
+      }),
+    };
+  }
+
+  const tif = typeof o.tif === 'string' && TIFS.has(o.tif) ? o.tif : undefined;
+  if (!tif) {
+    throw new Error(`Order type of ${o.oid} is unknown, so it can't be modified safely. Cancel and re-place it instead.`);
+  }
+  return { isTrigger, build: (newPx) => ({ p: newPx, t: { limit: { tif } } }) };
+}
+
+const modifyCmd = new Command('modify')
+  .alias('amend')
+  .description('Amend the price or size of an open order (keeps queue priority)')
+  .option(WALLET_OPT[0], WALLET_OPT[1])
+  .option('-y, --yes', 'Skip confirmation')
+  .option('-o, --oid <oid>', 'Order ID to modify (skips the picker)')
+  .option('-p, --price <price>', 'New limit price')
+  .option('-z, --size <size>', 'New size in contracts')
+  .action(wrapAction(async (opts: ModifyOpts) => {
+    // Validate flags upfront before any network call
+    if (opts.price !== undefined && !(Number(opts.price) > 0)) throw new Error('Price must be a positive number.');
+    if (opts.size !== undefined && !(Number(opts.size) > 0)) throw new Error('Size must be a positive number.');
+    if (opts.oid !== undefined && !Number.isInteger(Number(opts.oid))) throw new Error(`Invalid order ID: ${opts.oid}`);
+
+    const creds = requireAuth();
+
+    const resolved = await resolveWallet(creds.accessToken, opts.wallet, 'Modify orders on which wallet?');
+    if (!resolved) return;
+    const { wallet, walletId } = resolved;
+
+    if (await isAutopilotLocked(creds.accessToken, wallet, 'order modification')) return;
+
+    const openOrders = await fetchOpenOrders(creds.accessToken, wallet, walletId);
+    if (!openOrders) return;
+    if (openOrders.length === 0) {
+      info(`No open orders on ${getSubAccountLabel(wallet)}.`);
+      return;
+    }
+
+    let selected: Record<string, unknown>;
+    if (opts.oid !== undefined) {
+      const match = openOrders.find((o) => Number(o.oid) === Number(opts.oid));
+      if (!match) throw new Error(`No open order with ID ${opts.oid} on ${wallet.name ?? 'this wallet'}.`);
+      selected = match;
+    } else {
+      selected = await select({
+        message: 'Select order to modify:',
+        choices: openOrders.map((o) => ({ name: openOrderLabel(o), value: o })),
+      });
+    }
+
+    const orderType = modifiableOrderType(selected);
+    const { isTrigger } = orderType;
+    const currentPx = String((isTrigger ? selected.triggerPx : undefined) ?? selected.limitPx ?? '');
+    const currentSz = String(selected.sz ?? '');
+    const hasFlags = opts.price !== undefined || opts.size !== undefined;
+    const pxLabel = isTrigger ? 'trigger price' : 'limit price';
+
+    const newPx = opts.price ?? (hasFlags ? currentPx : await input({
+      message: `New ${pxLabel}:`,
+      default: currentPx,
+      validate: positiveNumberInput('Price'),
+    }));
+    const newSz = opts.size ?? (hasFlags ? currentSz : await input({
+      message: 'New size (in contracts):',
+      default: currentSz,
+      validate: positiveNumberInput('Size'),
+    }));
+
+    if (Number(newPx) === Number(currentPx) && Number(newSz) === Number(currentSz)) {
+      info('Price and size unchanged — nothing to modify.');
+      return;
+    }
+
+    const isBuy = selected.side === 'B';
+    const order: PerpsOrder = {
+      a: String(selected.coin),
+      b: isBuy,
+      s: newSz,
+      r: !!selected.reduceOnly,
+      ...orderType.build(newPx),
+    };
+
+    const change = (before: string, after: string) =>
+      Number(before) === Number(after) ? after : `${chalk.dim(before)} → ${chalk.bold(after)}`;
+    console.log('');
+    console.log(chalk.bold('Modify Order:'));
+    console.log(`  Wallet       : ${getSubAccountLabel(wallet)}`);
+    console.log(`  Asset        : ${chalk.bold(order.a)}`);
+    console.log(`  Side         : ${formatOrderSide(isBuy ? 'buy' : 'sell')}`);
+    console.log(`  Type         : ${'trigger' in order.t ? `${selected.orderType ?? 'Trigger'} (${order.t.trigger.tpsl.toUpperCase()})` : `Limit ${order.t.limit.tif}`}`);
+    console.log(`  ${(isTrigger ? 'Trigger' : 'Price').padEnd(13)}: ${change(`$${currentPx}`, `$${newPx}`)}`);
+    console.log(`  Size         : ${change(currentSz, newSz)}`);
+    console.log(`  Order ID     : ${chalk.dim(String(selected.oid))}`);
+    console.log('');
+
+    if (!opts.yes) {
+      await requireTransactionConfirmation(`Modify perps ${isBuy ? 'BUY' : 'SELL'} ${order.a} · size ${newSz} @ $${newPx}`);
+    }
+    await requireTouchId();
+
+    const spin = spinner('Modifying order…');
+    const res = await perpsApi.modifyOrders(creds.accessToken, {
+      modifies: [{ oid: Number(selected.oid), order }],
+      subAccountId: walletId,
+    });
+    spin.stop();
+    assertApiOk(res, 'Order modification failed');
+    success(`Order modified on ${getSubAccountLabel(wallet)}!`);
+    printTxResult(res.data);
+  }));
+
 // ─── close position ─────────────────────────────────────────────────────
 
 const closeCmd = new Command('close')
@@ -1233,6 +1419,248 @@ const tradesCmd = new Command('trades')
     console.log('');
   }));
 
+// ─── performance ─────────────────────────────────────────────────────────
+
+const EQUITY_TIME_KEYS = ['timestamp', 'time', 'date', 't'];
+const EQUITY_VALUE_KEYS = ['equity', 'accountValue', 'equityValue', 'totalEquity', 'value'];
+const TRADE_PNL_KEYS = ['closedPnl', 'realizedPnl', 'pnl', 'profit'];
+const TRADE_TIME_KEYS = ['closedAt', 'closeTime', 'exitTime', 'time', 'timestamp', 'updatedAt', 'createdAt'];
+
+/** Wallet identifier carried on an `/all` row, if any. */
+function rowWalletKey(row: Record<string, unknown>): string | undefined {
+  const v = row.subAccountId ?? row.walletId ?? row.address ?? row.user;
+  return v !== undefined && v !== null && v !== '' ? String(v).toLowerCase() : undefined;
+}
+
+/**
+ * Keep only rows of the default account. The `/all` endpoints report the
+ * default account; rows tagged with another wallet are dropped.
+ */
+function scopeRowsToDefault(rows: Record<string, unknown>[], wallet: PerpSubAccount): Record<string, unknown>[] {
+  const keys = new Set([getSubAccountId(wallet), wallet.address ?? ''].filter(Boolean).map((k) => k.toLowerCase()));
+  return rows.filter((r) => {
+    const key = rowWalletKey(r);
+    return !key || keys.has(key);
+  });
+}
+
+const toEquityRows = (arr: unknown[]): Record<string, unknown>[] =>
+  arr.map((p) => (Array.isArray(p) ? { time: p[0], value: p[1] } : p as Record<string, unknown>));
+
+/**
+ * Equity history keyed explicitly by this wallet's id or address, or
+ * `undefined` when the response doesn't break history down per wallet.
+ */
+function keyedEquityRows(raw: unknown, wallet: PerpSubAccount): Record<string, unknown>[] | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const obj = raw as Record<string, unknown>;
+  for (const key of [getSubAccountId(wallet), wallet.address]) {
+    if (key && Array.isArray(obj[key])) return toEquityRows(obj[key] as unknown[]);
+  }
+  const inner = obj.history ?? obj.data ?? obj.list ?? obj.items ?? obj.points;
+  return inner && typeof inner === 'object' ? keyedEquityRows(inner, wallet) : undefined;
+}
+
+/** Normalise default-account equity history (`[[t, v], …]`, point objects, or keyed by wallet). */
+function extractEquityRows(raw: unknown, wallet: PerpSubAccount): Record<string, unknown>[] {
+  const keyed = keyedEquityRows(raw, wallet);
+  if (keyed) return keyed;
+  if (Array.isArray(raw)) return scopeRowsToDefault(toEquityRows(raw), wallet);
+  if (!raw || typeof raw !== 'object') return [];
+
+  const obj = raw as Record<string, unknown>;
+  const inner = obj.history ?? obj.data ?? obj.list ?? obj.items ?? obj.points;
+  if (Array.isArray(inner)) return scopeRowsToDefault(toEquityRows(inner), wallet);
+  if (inner && typeof inner === 'object') return extractEquityRows(inner, wallet);
+  return [];
+}
+
+/**
+ * Group Hyperliquid fills into completed trades: one row per position that
+ * went back to flat (or flipped side), with `closedPnl` summed across its
+ * fills. Positions still open at the end are not counted.
+ */
+function groupFillsIntoTrades(fills: Record<string, unknown>[]): Record<string, unknown>[] {
+  const EPS = 1e-9;
+  const open = new Map<string, { pos: number; pnl: number }>();
+  const trades: Record<string, unknown>[] = [];
+  const sorted = [...fills].sort((a, b) => toMillis(a.time) - toMillis(b.time));
+  for (const f of sorted) {
+    const coin = String(f.coin ?? '');
+    const sz = Number(f.sz);
+    if (!coin || isNaN(sz)) continue;
+    const state = open.get(coin) ?? { pos: 0, pnl: 0 };
+    const start = f.startPosition !== undefined && !isNaN(Number(f.startPosition)) ? Number(f.startPosition) : state.pos;
+    const next = start + (f.side === 'B' ? sz : -sz);
+    state.pnl += Number(f.closedPnl ?? 0) || 0;
+
+    const flat = Math.abs(next) < EPS;
+    const flipped = !flat && Math.abs(start) > EPS && Math.sign(next) !== Math.sign(start);
+    if ((flat || flipped) && (Math.abs(start) > EPS || state.pnl !== 0)) {
+      trades.push({ coin, closedPnl: state.pnl, time: f.time });
+      state.pnl = 0;
+    }
+    state.pos = flat ? 0 : next;
+    open.set(coin, state);
+  }
+  return trades;
+}
+
+/** Realized PnL of each completed-trade row. */
+function tradePnls(rows: Record<string, unknown>[]): number[] {
+  return rows
+    .map((t) => TRADE_PNL_KEYS.map((k) => t[k]).find((v) => v !== undefined && v !== null && v !== ''))
+    .filter((v) => v !== undefined && !isNaN(Number(v)))
+    .map(Number);
+}
+
+interface TradeStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  avgWin: number | null;
+  avgLoss: number | null;
+  profitFactor: number | null;
+  netPnl: number;
+}
+
+function computeTradeStats(pnls: number[]): TradeStats {
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p < 0);
+  const grossProfit = wins.reduce((s, p) => s + p, 0);
+  const grossLoss = losses.reduce((s, p) => s + p, 0);
+  return {
+    trades: pnls.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: pnls.length > 0 ? (wins.length / pnls.length) * 100 : null,
+    avgWin: wins.length > 0 ? grossProfit / wins.length : null,
+    avgLoss: losses.length > 0 ? grossLoss / losses.length : null,
+    // null = undefined (no trades) or infinite (no losing trades)
+    profitFactor: grossLoss < 0 ? grossProfit / Math.abs(grossLoss) : null,
+    netPnl: grossProfit + grossLoss,
+  };
+}
+
+const performanceCmd = new Command('performance')
+  .alias('perf')
+  .description('Equity curve and performance analytics (win rate, profit factor, Sharpe, drawdown)')
+  .option('-d, --days <n>', 'Only include the last N days (default: all history)')
+  .option(WALLET_OPT[0], WALLET_OPT[1])
+  .action(wrapAction(async (opts) => {
+    let days: number | undefined;
+    if (opts.days !== undefined) {
+      days = parseInt(opts.days, 10);
+      if (isNaN(days) || days < 1) throw new Error('Days must be a positive integer.');
+    }
+    const creds = requireAuth();
+
+    const resolved = await resolveWallet(creds.accessToken, opts.wallet, 'View performance for which wallet?');
+    if (!resolved) return;
+    const { wallet, walletId } = resolved;
+
+    const since = days !== undefined ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+    const spin = spinner('Fetching performance data…');
+    let equityRows: Record<string, unknown>[];
+    let tradeRows: Record<string, unknown>[];
+    let equityNote: string | undefined;
+
+    if (walletId) {
+      // The `/all` endpoints cover the default account only, so sub-accounts
+      // group their own fills into trades and read equity from Hyperliquid.
+      const [fillRes, history] = await Promise.all([
+        perpsApi.getSubAccountFills(creds.accessToken, walletId, since),
+        wallet.address ? perpsApi.getPortfolioHistory(wallet.address) : Promise.resolve([]),
+      ]);
+      spin.stop();
+      assertApiOk(fillRes, 'Failed to fetch sub-account fills');
+      tradeRows = groupFillsIntoTrades(Array.isArray(fillRes.data) ? fillRes.data : []);
+      equityRows = history.map(([time, value]) => ({ time, value }));
+      if (equityRows.length === 0) {
+        equityNote = `Equity history is unavailable for ${wallet.name ?? walletId}; Sharpe, max drawdown and the equity chart are omitted.`;
+      }
+    } else {
+      const [equityRes, tradesRes] = await Promise.all([
+        perpsApi.getEquityHistory(creds.accessToken),
+        perpsApi.getCompletedTrades(creds.accessToken),
+      ]);
+      spin.stop();
+      assertApiOk(equityRes, 'Failed to fetch equity history');
+      assertApiOk(tradesRes, 'Failed to fetch completed trades');
+      equityRows = extractEquityRows(equityRes.data, wallet);
+      tradeRows = scopeRowsToDefault(Array.isArray(tradesRes.data) ? tradesRes.data : [], wallet);
+    }
+
+    const equity = toSeries(equityRows, EQUITY_TIME_KEYS, EQUITY_VALUE_KEYS)
+      .filter((p) => p.time >= since);
+
+    tradeRows = tradeRows.filter((t) => {
+      if (!since) return true;
+      const time = toMillis(TRADE_TIME_KEYS.map((k) => t[k]).find((v) => v !== undefined && v !== null));
+      return isNaN(time) || time >= since;
+    });
+
+    const stats = computeTradeStats(tradePnls(tradeRows));
+    const drawdown = equityNote ? null : maxDrawdown(equity.map((p) => p.value));
+    const sharpe = equityNote ? null : sharpeRatio(equity);
+
+    if (isRawJson()) {
+      console.log(JSON.stringify({
+        wallet: wallet.name ?? getSubAccountId(wallet),
+        days: days ?? null,
+        metrics: {
+          ...stats,
+          sharpe,
+          maxDrawdown: drawdown?.amount ?? null,
+          maxDrawdownPercent: drawdown?.percent ?? null,
+          startEquity: equity[0]?.value ?? null,
+          endEquity: equity[equity.length - 1]?.value ?? null,
+        },
+        equity,
+        ...(equityNote ? { note: equityNote } : {}),
+      }, null, 2));
+      return;
+    }
+
+    const period = days !== undefined ? `last ${days}d` : 'all time';
+    console.log('');
+    console.log(chalk.bold(`Perps Performance — ${getSubAccountLabel(wallet)} (${period}):`));
+
+    if (equityNote) {
+      info(equityNote);
+    } else if (equity.length > 1) {
+      console.log('');
+      console.log(chalk.dim('  Equity'));
+      for (const line of areaChart(equity, { formatY: fmt })) console.log(`  ${line}`);
+    } else {
+      console.log(chalk.dim('  Not enough equity history to chart.'));
+    }
+
+    const dash = chalk.dim('—');
+    console.log('');
+    if (equity.length > 0) {
+      const start = equity[0].value;
+      const end = equity[equity.length - 1].value;
+      console.log(`  Equity         : ${fmt(start)} → ${fmt(end)}`);
+    }
+    console.log(`  Closed Trades  : ${stats.trades}`);
+    console.log(`  Net PnL        : ${stats.trades > 0 ? pnlFmt(stats.netPnl) : dash}`);
+    console.log(`  Win Rate       : ${stats.winRate !== null ? `${stats.wins}/${stats.trades} (${stats.winRate.toFixed(1)}%)` : dash}`);
+    console.log(`  Avg Win        : ${stats.avgWin !== null ? chalk.green(`+${fmt(stats.avgWin)}`) : dash}`);
+    console.log(`  Avg Loss       : ${stats.avgLoss !== null ? chalk.red(`-${fmt(Math.abs(stats.avgLoss))}`) : dash}`);
+    const pf = stats.profitFactor !== null
+      ? stats.profitFactor.toFixed(2)
+      : stats.wins > 0 ? chalk.green('∞') : dash;
+    console.log(`  Profit Factor  : ${pf}`);
+    if (drawdown) {
+      console.log(`  Sharpe (ann.)  : ${sharpe !== null ? sharpe.toFixed(2) : dash}`);
+      const ddPct = drawdown.percent > 0 ? ` ${chalk.dim(`(-${drawdown.percent.toFixed(2)}%)`)}` : '';
+      console.log(`  Max Drawdown   : ${drawdown.amount > 0 ? chalk.red(`-${fmt(drawdown.amount)}`) : dash}${ddPct}`);
+    }
+    console.log('');
+  }));
+
 // ─── fund-records ────────────────────────────────────────────────────────
 
 const fundRecordsCmd = new Command('fund-records')
@@ -2321,9 +2749,11 @@ export const perpsCommand = new Command('perps')
   .addCommand(positionsCmd)
   .addCommand(orderCmd)
   .addCommand(cancelCmd)
+  .addCommand(modifyCmd)
   .addCommand(closeCmd)
   .addCommand(leverageCmd)
   .addCommand(tradesCmd)
+  .addCommand(performanceCmd)
   .addCommand(depositCmd)
   .addCommand(withdrawCmd)
   .addCommand(fundRecordsCmd)
@@ -2348,8 +2778,10 @@ export const perpsCommand = new Command('perps')
         { name: 'Place order', value: 'order' },
         { name: 'Close position', value: 'close' },
         { name: 'Cancel order', value: 'cancel' },
+        { name: 'Modify order', value: 'modify' },
         { name: 'Update leverage', value: 'leverage' },
         { name: 'View trade history', value: 'trades' },
+        { name: 'Performance analytics', value: 'performance' },
         { name: 'Deposit USDC', value: 'deposit' },
         { name: 'Withdraw USDC', value: 'withdraw' },
         { name: 'Fund records', value: 'fund-records' },
@@ -2,12 +2,76 @@ import { Command } from 'commander';
 import { input, select } from '@inquirer/prompts';
 import chalk from 'chalk';
 import { swaps, swapsSimulate } from '../api/crosschain.js';
+import { getTradeConfig, upsertTradeConfig, deleteTradeConfig } from '../api/tradeconfig.js';
 import { get } from '../api/client.js';
 import { requireAuth } from '../config.js';
-import { success, info, warn, spinner, assertApiOk, wrapAction, requireTransactionConfirmation, lookupToken, normalizeChain } from '../utils.js';
+import { success, info, warn, spinner, assertApiOk, wrapAction, requireTransactionConfirmation, lookupToken, normalizeChain, parseSlippage, parseFee } from '../utils.js';
 import { requireTouchId } from '../touchid.js';
+import { waitAndExit, parseWaitSeconds, printsWaitResult } from '../tx-status.js';
 import { printTxResult, printSwapSimulation } from '../formatters.js';
-import type { SwapSide, Chain, CrossChainSwapsSimulateItem } from '../types.js';
+import type { SwapSide, Chain, CrossChainSwapsSimulateItem, UserTradeConfig } from '../types.js';
+
+// ─── per-swap trade config overrides ─────────────────────────────────────
+
+/** One-line summary of overrides for the confirmation prompt. */
+function describeOverrides(o: UserTradeConfig): string {
+  const parts: string[] = [];
+  if (o.slippage) parts.push(`slippage ${o.slippage}%`);
+  if (o.priorityFee) parts.push(`priority fee ${o.priorityFee}`);
+  if (o.mode) parts.push(o.mode === 'ANTI_MEV' ? 'anti-MEV' : 'fast');
+  return parts.join(' · ');
+}
+
+/**
+ * Run `fn` with `overrides` temporarily applied to the account trade config.
+ *
+ * The swap API has no inline slippage / MEV fields, so the stored
+ * `UserTradeConfig` is swapped in for the duration of the call and restored
+ * (or deleted, if none existed) afterwards — even when `fn` throws or the
+ * process is interrupted with SIGINT / SIGTERM. While applied, the setting is
+ * account-wide, so the user is told it is changed temporarily.
+ */
+async function withTradeConfigOverrides<T>(
+  token: string,
+  overrides: UserTradeConfig,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (Object.keys(overrides).length === 0) return fn();
+
+  const prevRes = await getTradeConfig(token);
+  if (!prevRes.success) {
+    throw new Error(`Could not read current trade config: ${prevRes.error?.message ?? 'unknown error'}`);
+  }
+  const previous: UserTradeConfig = prevRes.data && typeof prevRes.data === 'object' ? prevRes.data : {};
+
+  let restoring: Promise<void> | undefined;
+  const restore = () => restoring ??= (async () => {
+    const restoreRes = Object.keys(previous).length > 0
+      ? await upsertTradeConfig(token, previous)
+      : await deleteTradeConfig(token);
+    if (!restoreRes.success) {
+      warn(`Could not restore your trade config (${restoreRes.error?.message ?? 'unknown error'}). Check it with: minara trade-config show`);
+    }
+  })();
+  const onSignal = (signal: NodeJS.Signals) => {
+    void restore().finally(() => process.exit(signal === 'SIGINT' ? 130 : 143));
+  };
+
+  info('Your account trade config is changed for this swap and restored right after.');
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+  try {
+    const applyRes = await upsertTradeConfig(token, { ...previous, ...overrides });
+    if (!applyRes.success) {
+      throw new Error(`Could not apply trade overrides: ${applyRes.error?.message ?? 'unknown error'}`);
+    }
+    return await fn();
+  } finally {
+    await restore();
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  }
+}
 
 export const swapCommand = new Command('swap')
   .description('Swap tokens (cross-chain spot trading)')
@@ -16,17 +80,32 @@ export const swapCommand = new Command('swap')
   .option('-a, --amount <amount>', 'USD amount (buy) or token amount (sell)')
   .option('-c, --chain <chain>', 'Blockchain (ethereum, base, solana, etc.)')
   .option('-y, --yes', 'Skip confirmation')
+  .option('--wait [seconds]', 'Wait for on-chain confirmation (default timeout 120s); exits non-zero on failure')
   .option('--dry-run', 'Simulate without executing')
+  .option('--slippage <bps|%>', 'Slippage for this swap only (e.g. 0.5%, 50bps)')
+  .option('--priority-fee <amount>', 'Priority fee for this swap only')
+  .option('--anti-mev', 'Use MEV-protected routing for this swap only')
+  .option('--fast', 'Use fast (non-MEV-protected) routing for this swap only')
   .action(wrapAction(async (opts) => {
     const creds = requireAuth();
 
     // ── 0. Validate CLI options early ────────────────────────────────────
+    if (typeof opts.wait === 'string') parseWaitSeconds(opts.wait);
     if (opts.amount) {
       const amountNum = parseFloat(opts.amount);
       if (opts.amount.toLowerCase() !== 'all' && (isNaN(amountNum) || amountNum <= 0)) {
         throw new Error('Amount must be a positive number');
       }
     }
+    if (opts.antiMev && opts.fast) {
+      throw new Error('--anti-mev and --fast cannot be used together');
+    }
+    const overrides: UserTradeConfig = {};
+    if (opts.slippage !== undefined) overrides.slippage = String(parseSlippage(opts.slippage));
+    if (opts.priorityFee !== undefined) overrides.priorityFee = parseFee(opts.priorityFee, 'Priority fee');
+    if (opts.antiMev) overrides.mode = 'ANTI_MEV';
+    if (opts.fast) overrides.mode = 'FAST';
+    const overrideSummary = describeOverrides(overrides);
 
     // ── 1. Side ──────────────────────────────────────────────────────────
     let side: SwapSide = opts.side;
@@ -103,14 +182,17 @@ export const swapCommand = new Command('swap')
       }
     }
 
+    if (overrideSummary) info(`Overrides for this swap: ${overrideSummary}`);
+
     // ── 5. Dry run ───────────────────────────────────────────────────────
     if (opts.dryRun) {
       info('Simulating swap (dry-run)…');
+      // Applying overrides would change the account config; simulate as saved
+      if (overrideSummary) info('The simulation uses your saved trade config; overrides apply only to the real swap.');
       const spin = spinner('Simulating…');
       const simRes = await swapsSimulate(creds.accessToken, [{
         chain, side, tokenAddress: tokenInfo.address, buyUsdAmountOrSellTokenAmount: amount,
-      }]);
-      spin.stop();
+      }]).finally(() => spin.stop());
       assertApiOk(simRes, 'Simulation failed');
       if (simRes.data && Array.isArray(simRes.data)) {
         for (const item of simRes.data) {
@@ -125,23 +207,24 @@ export const swapCommand = new Command('swap')
       await requireTransactionConfirmation(
         `${side.toUpperCase()} swap · ${amount} ${side === 'buy' ? 'USD' : 'tokens'} · ${chain}`,
         tokenInfo,
-        { chain, side, amount: `${amount} ${side === 'buy' ? 'USD' : '(token)'}` },
+        { chain, side, amount: `${amount} ${side === 'buy' ? 'USD' : '(token)'}`, settings: overrideSummary || undefined },
       );
     }
     await requireTouchId();
 
     // ── 9. Execute ───────────────────────────────────────────────────────
-    const spin = spinner('Executing swap…');
-    const res = await swaps(creds.accessToken, [{
-      chain, side, tokenAddress: tokenInfo.address, buyUsdAmountOrSellTokenAmount: amount,
-    }]);
-    spin.stop();
+    const res = await withTradeConfigOverrides(creds.accessToken, overrides, () => {
+      const spin = spinner('Executing swap…');
+      return swaps(creds.accessToken, [{
+        chain, side, tokenAddress: tokenInfo.address, buyUsdAmountOrSellTokenAmount: amount,
+      }]).finally(() => spin.stop());
+    });
 
     assertApiOk(res, 'Swap failed');
     success('Swap submitted!');
-    if (Array.isArray(res.data)) {
-      for (const tx of res.data) printTxResult(tx);
-    } else {
-      printTxResult(res.data);
+    if (!printsWaitResult(opts.wait)) {
+      for (const tx of Array.isArray(res.data) ? res.data : [res.data]) printTxResult(tx);
     }
+
+    if (opts.wait) await waitAndExit(creds.accessToken, res.data, opts.wait);
   }));
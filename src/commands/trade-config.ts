@@ -0,0 +1,202 @@
+import { Command } from 'commander';
+import { input, select, confirm } from '@inquirer/prompts';
+import chalk from 'chalk';
+import { getTradeConfig, upsertTradeConfig, deleteTradeConfig } from '../api/tradeconfig.js';
+import { requireAuth } from '../config.js';
+import { success, info, spinner, assertApiOk, wrapAction, parseSlippage, parseFee } from '../utils.js';
+import { printKV, isRawJson } from '../formatters.js';
+import type { UserTradeConfig } from '../types.js';
+
+type TradeMode = NonNullable<UserTradeConfig['mode']>;
+
+function parseMode(raw: string): TradeMode {
+  const v = raw.trim().toLowerCase().replace(/[-_\s]/g, '');
+  if (v === 'fast') return 'FAST';
+  if (v === 'antimev') return 'ANTI_MEV';
+  throw new Error(`Invalid mode: ${raw}. Must be "fast" or "anti-mev".`);
+}
+
+/** Wrap a throwing parser as an @inquirer `validate` callback. */
+function toValidator(parse: (v: string) => unknown): (v: string) => true | string {
+  return (v) => {
+    try {
+      parse(v);
+      return true;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+}
+
+async function fetchTradeConfig(token: string): Promise<UserTradeConfig> {
+  const spin = spinner('Fetching trade config…');
+  const res = await getTradeConfig(token);
+  spin.stop();
+  assertApiOk(res, 'Failed to fetch trade config');
+  return res.data && typeof res.data === 'object' ? res.data : {};
+}
+
+function printTradeConfig(config: UserTradeConfig): void {
+  if (isRawJson()) { printKV(config); return; }
+
+  const mode = config.mode === 'ANTI_MEV'
+    ? chalk.green('Anti-MEV')
+    : config.mode === 'FAST' ? chalk.cyan('Fast') : chalk.dim('—');
+  const dash = chalk.dim('—');
+  console.log(`  Slippage     : ${config.slippage ? `${config.slippage}%` : dash}`);
+  console.log(`  Priority Fee : ${config.priorityFee ?? dash}`);
+  console.log(`  Tip          : ${config.tip ?? dash}`);
+  console.log(`  MEV Mode     : ${mode}`);
+}
+
+// ─── show ────────────────────────────────────────────────────────────────
+
+const showCmd = new Command('show')
+  .description('Show your current trade config')
+  .action(wrapAction(async () => {
+    const creds = requireAuth();
+    const config = await fetchTradeConfig(creds.accessToken);
+
+    if (!isRawJson()) {
+      console.log('');
+      console.log(chalk.bold('Trade Config:'));
+    }
+    printTradeConfig(config);
+    if (!isRawJson()) {
+      if (Object.keys(config).length === 0) {
+        console.log(chalk.dim('  No custom config — server defaults apply.'));
+      }
+      console.log('');
+    }
+  }));
+
+// ─── set ─────────────────────────────────────────────────────────────────
+
+interface SetOpts {
+  slippage?: string;
+  priorityFee?: string;
+  tip?: string;
+  mode?: string;
+  yes?: boolean;
+}
+
+const setCmd = new Command('set')
+  .description('Update slippage, priority fee, tip or MEV mode')
+  .option('--slippage <value>', 'Slippage as percent (0.5, 0.5%) or basis points (50bps)')
+  .option('--priority-fee <amount>', 'Priority fee')
+  .option('--tip <amount>', 'Tip')
+  .option('--mode <mode>', 'Execution mode: fast or anti-mev')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(wrapAction(async (opts: SetOpts) => {
+    const creds = requireAuth();
+
+    // Validate all flags upfront before any network call
+    const updates: UserTradeConfig = {};
+    if (opts.slippage !== undefined) updates.slippage = String(parseSlippage(opts.slippage));
+    if (opts.priorityFee !== undefined) updates.priorityFee = parseFee(opts.priorityFee, 'Priority fee');
+    if (opts.tip !== undefined) updates.tip = parseFee(opts.tip, 'Tip');
+    if (opts.mode !== undefined) updates.mode = parseMode(opts.mode);
+
+    const current = await fetchTradeConfig(creds.accessToken);
+
+    // ── Interactive mode (no flags) ──────────────────────────────────────
+    if (Object.keys(updates).length === 0) {
+      const slippage = await input({
+        message: 'Slippage (%, or e.g. 50bps):',
+        default: current.slippage,
+        validate: toValidator(parseSlippage),
+      });
+      updates.slippage = String(parseSlippage(slippage));
+
+      const priorityFee = await input({
+        message: 'Priority fee:',
+        default: current.priorityFee ?? '0',
+        validate: toValidator((v) => parseFee(v, 'Priority fee')),
+      });
+      updates.priorityFee = parseFee(priorityFee, 'Priority fee');
+
+      const tip = await input({
+        message: 'Tip:',
+        default: current.tip ?? '0',
+        validate: toValidator((v) => parseFee(v, 'Tip')),
+      });
+      updates.tip = parseFee(tip, 'Tip');
+
+      updates.mode = await select<TradeMode>({
+        message: 'Execution mode:',
+        choices: [
+          { name: 'Fast      — lowest latency', value: 'FAST' },
+          { name: 'Anti-MEV  — private routing, protects against sandwiching', value: 'ANTI_MEV' },
+        ],
+        default: current.mode ?? 'FAST',
+      });
+    }
+
+    const next: UserTradeConfig = { ...current, ...updates };
+
+    if (!opts.yes && !isRawJson()) {
+      console.log('');
+      console.log(chalk.bold('New Trade Config:'));
+      printTradeConfig(next);
+      console.log('');
+      const ok = await confirm({ message: 'Save trade config?', default: true });
+      if (!ok) return;
+    }
+
+    const spin = spinner('Saving trade config…');
+    const res = await upsertTradeConfig(creds.accessToken, next);
+    spin.stop();
+    assertApiOk(res, 'Failed to update trade config');
+
+    if (isRawJson()) {
+      printKV(res.data && typeof res.data === 'object' ? res.data : next);
+      return;
+    }
+    success('Trade config updated.');
+  }));
+
+// ─── reset ───────────────────────────────────────────────────────────────
+
+const resetCmd = new Command('reset')
+  .description('Delete your trade config and revert to server defaults')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(wrapAction(async (opts: { yes?: boolean }) => {
+    const creds = requireAuth();
+
+    if (!opts.yes) {
+      const ok = await confirm({ message: 'Reset trade config to server defaults?', default: false });
+      if (!ok) return;
+    }
+
+    const spin = spinner('Resetting trade config…');
+    const res = await deleteTradeConfig(creds.accessToken);
+    spin.stop();
+    assertApiOk(res, 'Failed to reset trade config');
+
+    if (isRawJson()) {
+      console.log(JSON.stringify({ reset: true }, null, 2));
+      return;
+    }
+    success('Trade config reset.');
+    info('Swaps will use the server default slippage and execution mode.');
+  }));
+
+// ─── parent ──────────────────────────────────────────────────────────────
+
+export const tradeConfigCommand = new Command('trade-config')
+  .description('Spot trade settings — slippage, priority fee, tip, MEV protection')
+  .addCommand(showCmd)
+  .addCommand(setCmd)
+  .addCommand(resetCmd)
+  .action(wrapAction(async () => {
+    const action = await select({
+      message: 'Trade Config:',
+      choices: [
+        { name: 'Show current config', value: 'show' },
+        { name: 'Update config', value: 'set' },
+        { name: 'Reset to defaults', value: 'reset' },
+      ],
+    });
+    const sub = tradeConfigCommand.commands.find((c) => c.name() === action);
+    if (sub) await sub.parseAsync([], { from: 'user' });
+  }));
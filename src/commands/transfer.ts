@@ -6,6 +6,7 @@ import { requireAuth } from '../config.js';
 import { success, spinner, assertApiOk, selectChain, wrapAction, requireTransactionConfirmation, lookupToken, validateAddress } from '../utils.js';
 import type { Chain } from '../types.js';
 import { requireTouchId } from '../touchid.js';
+import { waitAndExit, parseWaitSeconds, printsWaitResult } from '../tx-status.js';
 import { printTxResult } from '../formatters.js';
 
 export const transferCommand = new Command('transfer')
@@ -16,10 +17,12 @@ export const transferCommand = new Command('transfer')
   .option('-a, --amount <amount>', 'Token amount to send')
   .option('--to <address>', 'Recipient address')
   .option('-y, --yes', 'Skip confirmation')
+  .option('--wait [seconds]', 'Wait for on-chain confirmation (default timeout 120s); exits non-zero on failure')
   .action(wrapAction(async (opts) => {
     const creds = requireAuth();
 
     // ── 0. Validate CLI options early ────────────────────────────────────
+    if (typeof opts.wait === 'string') parseWaitSeconds(opts.wait);
     if (opts.amount) {
       const amountNum = parseFloat(opts.amount);
       if (isNaN(amountNum) || amountNum <= 0) {
@@ -78,5 +81,7 @@ export const transferCommand = new Command('transfer')
 
     assertApiOk(res, 'Transfer failed');
     success('Transfer submitted!');
-    printTxResult(res.data);
+    if (!printsWaitResult(opts.wait)) printTxResult(res.data);
+
+    if (opts.wait) await waitAndExit(creds.accessToken, res.data, opts.wait);
   }));
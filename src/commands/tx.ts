@@ -0,0 +1,40 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { requireAuth } from '../config.js';
+import { spinner, wrapAction } from '../utils.js';
+import { isRawJson } from '../formatters.js';
+import {
+  fetchStatuses, waitForTransactions, reportStatuses, parseWaitSeconds,
+  DEFAULT_WAIT_SECONDS, TX_EXIT_CODES,
+} from '../tx-status.js';
+
+// ─── status ──────────────────────────────────────────────────────────────
+
+const statusCmd = new Command('status')
+  .description('Check the status of one or more spot transactions')
+  .argument('<id...>', 'Transaction ID(s) returned by swap / transfer / withdraw')
+  .option('--wait [seconds]', 'Poll until every transaction settles (default timeout 120s)')
+  .action(wrapAction(async (ids: string[], opts: { wait?: boolean | string }) => {
+    const timeoutSec = typeof opts.wait === 'string' ? parseWaitSeconds(opts.wait) : DEFAULT_WAIT_SECONDS;
+    const creds = requireAuth();
+
+    let code: number;
+    if (opts.wait) {
+      const { results, timedOut } = await waitForTransactions(creds.accessToken, ids, timeoutSec);
+      if (!isRawJson()) { console.log(''); console.log(chalk.bold('Transaction Status:')); }
+      code = reportStatuses(results, timedOut);
+    } else {
+      const spin = spinner('Fetching transaction status…');
+      const results = await fetchStatuses(creds.accessToken, ids).finally(() => spin.stop());
+      if (!isRawJson()) { console.log(''); console.log(chalk.bold('Transaction Status:')); }
+      code = reportStatuses(results, false);
+    }
+    if (!isRawJson()) console.log('');
+    if (code !== TX_EXIT_CODES.success) process.exit(code);
+  }));
+
+// ─── parent ──────────────────────────────────────────────────────────────
+
+export const txCommand = new Command('tx')
+  .description('Spot transaction tools — check status, wait for confirmation')
+  .addCommand(statusCmd);
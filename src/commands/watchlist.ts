@@ -0,0 +1,209 @@
+import { Command } from 'commander';
+import { select } from '@inquirer/prompts';
+import chalk from 'chalk';
+import { getFavoriteTokens, addFavoriteTokens } from '../api/auth.js';
+import { searchTokens } from '../api/tokens.js';
+import { requireAuth } from '../config.js';
+import { success, info, warn, spinner, wrapAction, lookupToken } from '../utils.js';
+import { printTable, isRawJson, TOKEN_COLUMNS } from '../formatters.js';
+import type { TokenInfo } from '../types.js';
+
+/** Default `watch` refresh interval in seconds. */
+const DEFAULT_INTERVAL = 15;
+
+// ─── helpers ─────────────────────────────────────────────────────────────
+
+function extractTokens(raw: unknown): string[] {
+  const list = Array.isArray(raw) ? raw : (raw as { tokens?: unknown } | undefined)?.tokens;
+  return Array.isArray(list) ? list.filter((t): t is string => typeof t === 'string' && t !== '') : [];
+}
+
+/** Favorites as stored by the web app (token addresses). */
+async function fetchFavorites(token: string): Promise<string[]> {
+  const res = await getFavoriteTokens(token);
+  if (!res.success) throw new Error(`Failed to fetch watchlist: ${res.error?.message ?? 'Unknown error'}`);
+  return extractTokens(res.data);
+}
+
+/** Replace the favorites list; returns what the server stored. */
+async function saveFavorites(token: string, tokens: string[]): Promise<string[]> {
+  const res = await addFavoriteTokens(token, { tokens });
+  if (!res.success) throw new Error(`Failed to update watchlist: ${res.error?.message ?? 'Unknown error'}`);
+  return res.data ? extractTokens(res.data) : tokens;
+}
+
+function sameToken(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Current market data for one favorite; falls back to a bare row if search finds nothing. */
+async function quoteToken(id: string): Promise<TokenInfo> {
+  const res = await searchTokens(id);
+  const matches = res.success && Array.isArray(res.data) ? res.data : [];
+  const hit = matches.find((t) => t.address && sameToken(t.address, id))
+    ?? matches.find((t) => sameToken(t.symbol ?? '', id))
+    ?? matches[0];
+  return hit ? { ...hit, address: hit.address ?? id } : { symbol: id.length > 12 ? `${id.slice(0, 6)}…${id.slice(-4)}` : id, address: id };
+}
+
+function quoteAll(ids: string[]): Promise<TokenInfo[]> {
+  return Promise.all(ids.map(quoteToken));
+}
+
+function printWatchlist(rows: TokenInfo[]): void {
+  if (isRawJson()) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  console.log('');
+  console.log(chalk.bold('Watchlist:') + chalk.dim(`  ${rows.length} token${rows.length === 1 ? '' : 's'} · ${new Date().toLocaleTimeString()}`));
+  if (rows.length === 0) {
+    console.log(chalk.dim('  Empty. Add tokens with: minara watchlist add <ticker|address>'));
+  } else {
+    printTable(rows, TOKEN_COLUMNS);
+  }
+}
+
+// ─── add ─────────────────────────────────────────────────────────────────
+
+const addCmd = new Command('add')
+  .description('Add tokens to your watchlist')
+  .argument('<tokens...>', 'Token tickers ($BONK) or contract addresses')
+  .action(wrapAction(async (inputs: string[]) => {
+    const creds = requireAuth();
+    const current = await fetchFavorites(creds.accessToken);
+
+    const added: string[] = [];
+    for (const input of inputs) {
+      const t = await lookupToken(input);
+      const label = t.symbol ? `$${t.symbol}` : t.address;
+      if ([...current, ...added].some((id) => sameToken(id, t.address))) {
+        info(`${label} is already on your watchlist.`);
+        continue;
+      }
+      added.push(t.address);
+      console.log(chalk.dim(`  + ${label} (${t.chain ?? 'unknown chain'}) ${t.address}`));
+    }
+    if (added.length === 0) return;
+
+    const spin = spinner('Updating watchlist…');
+    try {
+      await saveFavorites(creds.accessToken, [...current, ...added]);
+    } finally {
+      spin.stop();
+    }
+    success(`Added ${added.length} token${added.length === 1 ? '' : 's'} to your watchlist.`);
+  }));
+
+// ─── remove ──────────────────────────────────────────────────────────────
+
+const removeCmd = new Command('remove')
+  .alias('rm')
+  .description('Remove a token from your watchlist')
+  .argument('[token]', 'Ticker ($BONK) or contract address (pick from the list if omitted)')
+  .action(wrapAction(async (input?: string) => {
+    const creds = requireAuth();
+    const spin = spinner('Loading watchlist…');
+    let current: string[];
+    let quotes: TokenInfo[];
+    try {
+      current = await fetchFavorites(creds.accessToken);
+      quotes = await quoteAll(current);
+    } finally {
+      spin.stop();
+    }
+    if (current.length === 0) {
+      info('Your watchlist is empty.');
+      return;
+    }
+
+    let target: string;
+    if (input) {
+      const symbol = input.replace(/^\$/, '');
+      const match = current.find((id) => sameToken(id, input))
+        ?? quotes.find((q) => sameToken(q.symbol ?? '', symbol))?.address;
+      if (!match) throw new Error(`${input} is not on your watchlist.`);
+      target = match;
+    } else {
+      target = await select({
+        message: 'Remove which token?',
+        choices: quotes.map((q) => ({
+          name: `${chalk.bold(`$${q.symbol}`)}  ${chalk.dim(q.address ?? '')}`,
+          value: q.address!,
+        })),
+      });
+    }
+
+    const saveSpin = spinner('Updating watchlist…');
+    let stored: string[];
+    try {
+      stored = await saveFavorites(creds.accessToken, current.filter((id) => !sameToken(id, target)));
+    } finally {
+      saveSpin.stop();
+    }
+    // The favorites endpoint may only ever add — don't claim success if it kept the token
+    if (stored.some((id) => sameToken(id, target))) {
+      throw new Error('The server kept this token. Remove it from favorites in the Minara web app.');
+    }
+    const label = quotes.find((q) => q.address && sameToken(q.address, target))?.symbol;
+    success(`Removed ${label ? `$${label}` : target} from your watchlist.`);
+  }));
+
+// ─── list ────────────────────────────────────────────────────────────────
+
+const listCmd = new Command('list')
+  .alias('ls')
+  .description('Show your watchlist with price, 24h change and volume')
+  .action(wrapAction(async () => {
+    const creds = requireAuth();
+    const spin = spinner('Fetching watchlist…');
+    let rows: TokenInfo[];
+    try {
+      rows = await quoteAll(await fetchFavorites(creds.accessToken));
+    } finally {
+      spin.stop();
+    }
+    printWatchlist(rows);
+    if (!isRawJson()) console.log('');
+  }));
+
+// ─── watch ───────────────────────────────────────────────────────────────
+
+const watchCmd = new Command('watch')
+  .description('Live watchlist table (Ctrl+C to exit)')
+  .option('-i, --interval <seconds>', 'Refresh interval in seconds', String(DEFAULT_INTERVAL))
+  .action(wrapAction(async (opts: { interval: string }) => {
+    const interval = parseFloat(opts.interval);
+    if (isNaN(interval) || interval < 1) throw new Error('--interval must be a number of seconds (minimum 1).');
+    const creds = requireAuth();
+
+    for (let first = true; ; first = false) {
+      const spin = spinner('Fetching watchlist…');
+      try {
+        // Re-read favorites each round so edits in the web app show up
+        const rows = await quoteAll(await fetchFavorites(creds.accessToken));
+        spin.stop();
+        if (!isRawJson()) console.clear();
+        printWatchlist(rows);
+      } catch (err) {
+        spin.stop();
+        if (first) throw err;
+        warn(`Refresh failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!isRawJson()) console.log(chalk.dim(`  Refreshing every ${interval}s — Ctrl+C to exit`));
+      await new Promise((r) => setTimeout(r, interval * 1000));
+    }
+  }));
+
+// ─── parent ──────────────────────────────────────────────────────────────
+
+export const watchlistCommand = new Command('watchlist')
+  .alias('wl')
+  .description('Favorite tokens watchlist (synced with the Minara web app)')
+  .addCommand(addCmd)
+  .addCommand(removeCmd)
+  .addCommand(listCmd)
+  .addCommand(watchCmd)
+  .action(wrapAction(async () => {
+    await listCmd.parseAsync([], { from: 'user' });
+  }));
@@ -6,6 +6,7 @@ import { requireAuth } from '../config.js';
 import { success, spinner, assertApiOk, selectChain, wrapAction, requireTransactionConfirmation, lookupToken, validateAddress } from '../utils.js';
 import type { Chain } from '../types.js';
 import { requireTouchId } from '../touchid.js';
+import { waitAndExit, parseWaitSeconds, printsWaitResult } from '../tx-status.js';
 import { printTxResult } from '../formatters.js';
 
 export const withdrawCommand = new Command('withdraw')
@@ -15,10 +16,12 @@ export const withdrawCommand = new Command('withdraw')
   .option('-a, --amount <amount>', 'Amount to withdraw')
   .option('--to <address>', 'Destination address')
   .option('-y, --yes', 'Skip confirmation')
+  .option('--wait [seconds]', 'Wait for on-chain confirmation (default timeout 120s); exits non-zero on failure')
   .action(wrapAction(async (opts) => {
     const creds = requireAuth();
 
     // ── 0. Validate CLI options early ────────────────────────────────────
+    if (typeof opts.wait === 'string') parseWaitSeconds(opts.wait);
     if (opts.amount) {
       const amountNum = parseFloat(opts.amount);
       if (isNaN(amountNum) || amountNum <= 0) {
@@ -105,6 +108,11 @@ export const withdrawCommand = new Command('withdraw')
     assertApiOk(res, 'Withdrawal failed');
 
     success('Withdrawal submitted!');
-    printTxResult(res.data);
+    if (!printsWaitResult(opts.wait)) printTxResult(res.data);
+
+    if (opts.wait) {
+      await waitAndExit(creds.accessToken, res.data, opts.wait);
+      return;
+    }
     console.log(chalk.dim('\nIt may take a few minutes for the transaction to be confirmed on-chain.'));
   }));
@@ -57,6 +57,7 @@ export interface AppConfig {
   baseUrl: string;
   touchId?: boolean;
   confirmBeforeTransaction?: boolean;
+  chatHistory?: boolean;
 }
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -81,6 +82,11 @@ export function saveConfig(config: Partial<AppConfig>): void {
   writeFileSync(CONFIG_FILE, JSON.stringify(merged, null, 2), { encoding: 'utf-8', mode: 0o600 });
 }
 
+/** Remove saved settings (defaults apply again on next load). */
+export function clearConfig(): void {
+  if (existsSync(CONFIG_FILE)) unlinkSync(CONFIG_FILE);
+}
+
 export function getMinaraDir(): string {
   ensureDir();
   return MINARA_DIR;
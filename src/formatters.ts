@@ -252,9 +252,8 @@ export function printTable(
     return;
   }
 
-  const rows = data as Record<string, unknown>[];
-  const cols = columns ?? autoColumns(rows);
-  if (cols.length === 0) {
+  const table = formatTable(data as Record<string, unknown>[], columns);
+  if (table === null) {
     // fallback — just printKV for each item
     for (const row of data) {
       printKV(row);
@@ -262,6 +261,16 @@ export function printTable(
     }
     return;
   }
+  console.log(table);
+}
+
+/**
+ * Render rows as a CLI table string, for callers that write through their
+ * own sink. Returns `null` when no printable columns are found.
+ */
+export function formatTable(rows: Record<string, unknown>[], columns?: ColumnDef[]): string | null {
+  const cols = columns ?? autoColumns(rows);
+  if (cols.length === 0) return null;
 
   const table = new Table({
     head: cols.map((c) => chalk.white.bold(c.label ?? formatLabel(c.key))),
@@ -283,7 +292,29 @@ export function printTable(
     );
   }
 
-  console.log(table.toString());
+  return table.toString();
+}
+
+// ─── CSV export ──────────────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const s = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Serialize rows as RFC 4180 CSV. The header is the union of all keys in
+ * first-seen order; nested values are JSON-encoded.
+ */
+export function formatCsv(rows: Record<string, unknown>[]): string {
+  const keys: string[] = [];
+  for (const row of rows) {
+    for (const k of Object.keys(row)) if (!keys.includes(k)) keys.push(k);
+  }
+  const lines = [keys.map(csvCell).join(',')];
+  for (const row of rows) lines.push(keys.map((k) => csvCell(row[k])).join(','));
+  return lines.join('\n') + '\n';
 }
 
 // ─── printTxResult ───────────────────────────────────────────────────────
@@ -426,8 +457,59 @@ export const LIMIT_ORDER_COLUMNS: ColumnDef[] = [
 ];
 
 
+/** Spot activity history (swaps, transfers, deposits) */
+export const ACTIVITY_COLUMNS: ColumnDef[] = [
+  { key: 'createdAt', label: 'Time', format: (v, row) => {
+    const raw = v ?? row.timestamp ?? row.time;
+    if (!raw) return chalk.dim('—');
+    const d = new Date(typeof raw === 'number' && raw < 1e12 ? raw * 1000 : raw as string | number);
+    return isNaN(d.getTime()) ? String(raw) : d.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  }},
+  { key: 'type', label: 'Type', format: (v, row) => {
+    const t = v ?? (Array.isArray(row.tags) ? row.tags.join(', ') : row.tags);
+    return t ? chalk.bold(String(t)) : chalk.dim('—');
+  }},
+  { key: 'chain', label: 'Chain', format: (v, row) => {
+    const c = v ?? row.chainId ?? row.chainName;
+    return c !== undefined && c !== null ? chalk.cyan(String(c)) : chalk.dim('—');
+  }},
+  { key: 'tokenSymbol', label: 'Token', format: (v, row) => {
+    const sym = v ?? row.symbol;
+    if (sym) return chalk.bold(String(sym));
+    return row.tokenAddress ? chalk.yellow(truncate(String(row.tokenAddress), 14)) : chalk.dim('—');
+  }},
+  { key: 'amount', label: 'Amount', format: (v, row) => {
+    const n = Number(v ?? row.tokenAmount);
+    return isNaN(n) || (v ?? row.tokenAmount) === undefined ? chalk.dim('—') : n.toLocaleString('en-US', { maximumFractionDigits: 6 });
+  }},
+  { key: 'usdValue', label: 'Value', format: (v, row) => formatValue(v ?? row.amountInUsd ?? row.valueUsd, 'usd') },
+  { key: 'status', label: 'Status', format: (v) => formatValue(v, 'status') },
+  { key: 'txHash', label: 'Tx', format: (v, row) => {
+    const h = v ?? row.transactionHash ?? row.transactionId;
+    return h ? chalk.dim(truncate(String(h), 14)) : chalk.dim('—');
+  }},
+];
+
+/** Spot transaction statuses (TransactionResult[] from getStatuses) */
+export const TX_STATUS_COLUMNS: ColumnDef[] = [
+  { key: 'transactionId', label: 'Transaction', format: (v, row) => chalk.dim(String(v ?? row.id ?? row.txId ?? '—')) },
+  { key: 'status', label: 'Status', format: (v) => formatValue(v, 'status') },
+  { key: 'chain', label: 'Chain', format: (v, row) => {
+    const c = v ?? row.chainId;
+    return c !== undefined && c !== null ? chalk.cyan(String(c)) : chalk.dim('—');
+  }},
+  { key: 'txHash', label: 'Tx Hash', format: (v, row) => {
+    const h = v ?? row.transactionHash ?? row.hash;
+    return h ? chalk.yellow(truncate(String(h), 20)) : chalk.dim('—');
+  }},
+  { key: 'error', label: 'Error', format: (v, row) => {
+    const e = v ?? row.errorMessage ?? row.reason;
+    return e ? chalk.red(String(e)) : chalk.dim('—');
+  }},
+];
+
 /** Format large numbers as $1.23B / $456.78M / $12.3K */
-function compactUsd(v: unknown): string {
+export function compactUsd(v: unknown): string {
   if (!v && v !== 0) return chalk.dim('—');
   const n = Number(v);
   if (isNaN(n)) return chalk.dim('—');
@@ -456,6 +538,19 @@ export const STOCK_COLUMNS: ColumnDef[] = [
   { key: 'marketCap', label: 'Market Cap', format: compactUsd },
 ];
 
+/** Gas fees per chain (GasFeeInfo[] merged with SUPPORTED_CHAINS) */
+export const GAS_FEE_COLUMNS: ColumnDef[] = [
+  { key: 'chain', label: 'Chain', format: (v) => {
+    const s = String(v ?? '—');
+    return chalk.cyan(s === 'bsc' ? 'BSC' : s.charAt(0).toUpperCase() + s.slice(1));
+  }},
+  { key: 'fee', label: 'Fee', format: (v) => {
+    if (v === undefined || v === null || v === '') return chalk.dim('n/a');
+    const n = Number(v);
+    return isNaN(n) ? String(v) : n.toLocaleString('en-US', { maximumFractionDigits: 8 });
+  }},
+];
+
 // ═══════════════════════════════════════════════════════════════════════════
 //  Specialised display helpers for discover commands
 // ═══════════════════════════════════════════════════════════════════════════
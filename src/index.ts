@@ -20,12 +20,16 @@ import { withdrawCommand } from './commands/withdraw.js';
 // Trading
 import { swapCommand } from './commands/swap.js';
 import { transferCommand } from './commands/transfer.js';
+import { tradeConfigCommand } from './commands/trade-config.js';
+import { activityCommand } from './commands/activity.js';
+import { txCommand } from './commands/tx.js';
 import { perpsCommand } from './commands/perps.js';
 import { limitOrderCommand } from './commands/limit-order.js';
 
 // AI, Market, Premium, Config
 import { chatCommand, askCommand, researchCommand } from './commands/chat.js';
 import { discoverCommand } from './commands/discover.js';
+import { watchlistCommand } from './commands/watchlist.js';
 import { premiumCommand } from './commands/premium.js';
 import { configCommand } from './commands/config.js';
 
@@ -65,6 +69,9 @@ program.addCommand(withdrawCommand);
 // ── Spot Trading ─────────────────────────────────────────────────────────
 program.addCommand(swapCommand);
 program.addCommand(transferCommand);
+program.addCommand(tradeConfigCommand);
+program.addCommand(activityCommand);
+program.addCommand(txCommand);
 
 // ── Perpetual Futures ────────────────────────────────────────────────────
 program.addCommand(perpsCommand);
@@ -79,6 +86,7 @@ program.addCommand(researchCommand);
 
 // ── Market ───────────────────────────────────────────────────────────────
 program.addCommand(discoverCommand);
+program.addCommand(watchlistCommand);
 
 // ── Premium ─────────────────────────────────────────────────────────────
 program.addCommand(premiumCommand);
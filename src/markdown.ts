@@ -0,0 +1,155 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Markdown → ANSI — line-buffered rendering of streamed AI answers
+// ═══════════════════════════════════════════════════════════════════════════
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+
+/** Format inline markdown: `code`, **bold**, *italic*, ~~strike~~ and [links](url). */
+export function renderInline(text: string): string {
+  // Pull code spans out first so their contents are left untouched
+  const codes: string[] = [];
+  let s = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codes.push(chalk.cyan(code));
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+
+  s = s
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => chalk.bold(a ?? b ?? ''))
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)/g, (_, pre: string, t: string) => pre + chalk.italic(t))
+    .replace(/(^|[^_\w])_(?!\s)(.+?)_(?!\w)/g, (_, pre: string, t: string) => pre + chalk.italic(t))
+    .replace(/~~(.+?)~~/g, (_, t: string) => chalk.strikethrough(t))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) =>
+      label === url ? chalk.underline.blue(url) : `${chalk.underline(label)} ${chalk.dim(`(${url})`)}`);
+
+  return s.replace(/\u0000(\d+)\u0000/g, (_, i: string) => codes[Number(i)]);
+}
+
+const TABLE_ROW_RE = /^\s*\|.*\|\s*$/;
+const TABLE_SEP_RE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((c) => c.trim());
+}
+
+function renderTable(lines: string[]): string {
+  const rows = lines.filter((l) => !TABLE_SEP_RE.test(l)).map(splitRow);
+  const hasHeader = lines.length > 1 && TABLE_SEP_RE.test(lines[1]);
+  const [head, ...body] = hasHeader ? rows : [[], ...rows];
+  const table = new Table({
+    head: head.map((h) => chalk.white.bold(renderInline(h))),
+    style: { head: [], border: ['dim'] },
+    wordWrap: true,
+  });
+  for (const row of body) table.push(row.map(renderInline));
+  return table.toString() + '\n';
+}
+
+function renderLine(line: string): string {
+  const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+  if (heading) {
+    const text = renderInline(heading[2].replace(/\s+#+\s*$/, ''));
+    return heading[1].length <= 2 ? chalk.bold.underline(text) : chalk.bold(text);
+  }
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return chalk.dim('─'.repeat(40));
+
+  const quote = /^\s*>\s?(.*)$/.exec(line);
+  if (quote) return chalk.dim('│ ') + chalk.italic(renderInline(quote[1]));
+
+  const bullet = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/.exec(line);
+  if (bullet) {
+    const box = bullet[2] === undefined ? '•' : bullet[2] === ' ' ? '☐' : '☑';
+    return `${bullet[1]}${chalk.cyan(box)} ${renderInline(bullet[3])}`;
+  }
+  const numbered = /^(\s*)(\d+[.)])\s+(.*)$/.exec(line);
+  if (numbered) return `${numbered[1]}${chalk.cyan(numbered[2])} ${renderInline(numbered[3])}`;
+
+  return renderInline(line);
+}
+
+export interface MarkdownStream {
+  /** Feed a chunk of markdown; completed lines are rendered and written. */
+  push(chunk: string): void;
+  /** Render whatever is buffered (partial line, open table or code block). */
+  flush(): void;
+  /** Final flush at end of input: also closes a code block left without its closing fence. */
+  end(): void;
+}
+
+/**
+ * Incremental markdown renderer for streamed text. Output is line-buffered:
+ * each line is formatted once its newline arrives (so a `**` split across
+ * chunks still renders), tables are held until the last row so columns can
+ * be aligned, and fenced code blocks are printed with a dimmed gutter.
+ */
+export function createMarkdownStream(write: (s: string) => void): MarkdownStream {
+  let buffer = '';
+  let table: string[] = [];
+  let fence: string | null = null;
+
+  function flushTable(): void {
+    if (table.length === 0) return;
+    write(renderTable(table));
+    table = [];
+  }
+
+  function handleLine(line: string): void {
+    const fenceMatch = /^\s*(```|~~~)\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null;
+        write(chalk.dim('└') + '\n');
+      } else {
+        write(chalk.dim('│ ') + chalk.cyan(line) + '\n');
+      }
+      return;
+    }
+    if (fenceMatch) {
+      flushTable();
+      fence = fenceMatch[1];
+      write(chalk.dim(`┌${fenceMatch[2] ? ` ${fenceMatch[2]}` : ''}`) + '\n');
+      return;
+    }
+
+    if (TABLE_ROW_RE.test(line) || (table.length > 0 && TABLE_SEP_RE.test(line))) {
+      table.push(line);
+      return;
+    }
+    flushTable();
+    write(renderLine(line) + '\n');
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) handleLine(line.replace(/\r$/, ''));
+    },
+
+    flush() {
+      if (buffer) {
+        const rest = buffer;
+        buffer = '';
+        if (fence) write(chalk.dim('│ ') + chalk.cyan(rest));
+        else if (TABLE_ROW_RE.test(rest)) table.push(rest);
+        else { flushTable(); write(renderLine(rest)); }
+      }
+      flushTable();
+    },
+
+    end() {
+      // A trailing fence line (or last code line) may lack its newline
+      if (fence && buffer) {
+        const rest = buffer;
+        buffer = '';
+        handleLine(rest.replace(/\r$/, ''));
+      }
+      this.flush();
+      if (fence) {
+        fence = null;
+        write(chalk.dim('└') + '\n');
+      }
+    },
+  };
+}
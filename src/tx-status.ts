@@ -0,0 +1,154 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//  Transaction status — poll spot transactions until they settle
+// ═══════════════════════════════════════════════════════════════════════════
+
+import chalk from 'chalk';
+import { getStatuses } from './api/crosschain.js';
+import { spinner, success, info, warn, error } from './utils.js';
+import { printTable, isRawJson, TX_STATUS_COLUMNS } from './formatters.js';
+import type { TransactionResult } from './types.js';
+
+export type TxOutcome = 'success' | 'failed' | 'pending';
+
+/** Default `--wait` timeout in seconds. */
+export const DEFAULT_WAIT_SECONDS = 120;
+
+const POLL_INTERVAL_MS = 3000;
+
+/** Exit codes used by `--wait` and `tx status`. */
+export const TX_EXIT_CODES = { success: 0, failed: 1, timeout: 2 } as const;
+
+const SUCCESS_RE = /^(success|succeeded|completed|confirmed|filled|done|finished)$/i;
+const FAILURE_RE = /^(failed|failure|error|rejected|cancelled|canceled|reverted|expired|dropped)$/i;
+
+/** Map a raw API status string to a terminal outcome (or `pending`). */
+export function classifyStatus(status?: string): TxOutcome {
+  if (!status) return 'pending';
+  if (SUCCESS_RE.test(status)) return 'success';
+  if (FAILURE_RE.test(status)) return 'failed';
+  return 'pending';
+}
+
+/** Pull transaction IDs out of a swap / transfer response (single or array). */
+export function extractTransactionIds(data: unknown): string[] {
+  const items = Array.isArray(data) ? data : [data];
+  const ids: string[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const o = item as TransactionResult;
+    const id = o.transactionId ?? o.id ?? o.txId;
+    if (id) ids.push(String(id));
+  }
+  return ids;
+}
+
+/** Fetch the current status of each transaction once. */
+export async function fetchStatuses(token: string, ids: string[]): Promise<TransactionResult[]> {
+  const res = await getStatuses(token, ids);
+  if (!res.success) {
+    throw new Error(res.error?.message ?? 'Failed to fetch transaction status');
+  }
+  return Array.isArray(res.data) ? res.data : [];
+}
+
+/**
+ * Poll `getStatuses` until every transaction reaches a terminal state or
+ * `timeoutSec` elapses. Returns the last statuses seen.
+ */
+export async function waitForTransactions(
+  token: string,
+  ids: string[],
+  timeoutSec = DEFAULT_WAIT_SECONDS,
+  intervalMs = POLL_INTERVAL_MS,
+): Promise<{ results: TransactionResult[]; timedOut: boolean }> {
+  const deadline = Date.now() + timeoutSec * 1000;
+  const spin = spinner(`Waiting for ${ids.length} transaction${ids.length === 1 ? '' : 's'} to settle…`);
+  let results: TransactionResult[] = [];
+  try {
+    while (true) {
+      const res = await getStatuses(token, ids);
+      // Transient API errors are retried until the deadline
+      if (res.success && Array.isArray(res.data)) {
+        results = res.data;
+        const pending = results.filter((r) => classifyStatus(r.status) === 'pending').length;
+        const settled = results.length >= ids.length && pending === 0;
+        if (settled) return { results, timedOut: false };
+        spin.text = `Waiting for ${pending || ids.length} pending transaction${pending === 1 ? '' : 's'}…`;
+      }
+      if (Date.now() + intervalMs > deadline) return { results, timedOut: true };
+      await new Promise((r) => setTimeout(r, intervalMs));
+    }
+  } finally {
+    spin.stop();
+  }
+}
+
+/**
+ * Print final statuses and return the exit code they map to:
+ * 0 = all succeeded (or still pending without a wait), 1 = any failed,
+ * 2 = still pending after a `--wait` timeout.
+ */
+export function reportStatuses(results: TransactionResult[], timedOut: boolean): number {
+  printTable(results, TX_STATUS_COLUMNS);
+  return statusExitCode(results, timedOut);
+}
+
+/** Exit code for final statuses, with a one-line summary outside raw-JSON mode. */
+function statusExitCode(results: TransactionResult[], timedOut: boolean): number {
+  const failed = results.filter((r) => classifyStatus(r.status) === 'failed').length;
+  if (failed > 0) {
+    if (!isRawJson()) error(`${failed} transaction${failed === 1 ? '' : 's'} failed.`);
+    return TX_EXIT_CODES.failed;
+  }
+  if (timedOut) {
+    if (!isRawJson()) warn('Timed out waiting for confirmation. Check later with: minara tx status <id>');
+    return TX_EXIT_CODES.timeout;
+  }
+  const pending = results.filter((r) => classifyStatus(r.status) === 'pending').length;
+  if (pending > 0) {
+    if (!isRawJson()) info(`${pending} transaction${pending === 1 ? '' : 's'} still pending.`);
+    return TX_EXIT_CODES.success;
+  }
+  if (!isRawJson()) success('All transactions confirmed.');
+  return TX_EXIT_CODES.success;
+}
+
+/**
+ * `--wait` handler shared by swap / transfer / withdraw: waits for the
+ * transactions in `data` and exits non-zero if any failed or timed out.
+ * In raw-JSON mode it prints a single `{ result, statuses }` document, so
+ * callers skip printing `data` themselves (see `printsWaitResult`).
+ */
+export async function waitAndExit(token: string, data: unknown, wait: boolean | string): Promise<void> {
+  const ids = extractTransactionIds(data);
+  if (ids.length === 0) {
+    if (isRawJson()) console.log(JSON.stringify({ result: data, statuses: [] }, null, 2));
+    error('No transaction ID returned — cannot wait for confirmation.');
+    process.exit(TX_EXIT_CODES.failed);
+  }
+
+  const timeoutSec = typeof wait === 'string' ? parseWaitSeconds(wait) : DEFAULT_WAIT_SECONDS;
+  if (!isRawJson()) console.log('');
+  const { results, timedOut } = await waitForTransactions(token, ids, timeoutSec);
+  let code: number;
+  if (isRawJson()) {
+    console.log(JSON.stringify({ result: data, statuses: results }, null, 2));
+    code = statusExitCode(results, timedOut);
+  } else {
+    console.log(chalk.bold('Transaction Status:'));
+    code = reportStatuses(results, timedOut);
+  }
+  if (code !== TX_EXIT_CODES.success) process.exit(code);
+}
+
+/** Whether `waitAndExit` will print the submit result itself (raw-JSON `--wait`). */
+export function printsWaitResult(wait: unknown): boolean {
+  return !!wait && isRawJson();
+}
+
+/** Validate a `--wait [seconds]` value. */
+export function parseWaitSeconds(raw: string): number {
+  const n = Number(raw);
+  if (isNaN(n) || n <= 0) throw new Error('--wait timeout must be a positive number of seconds.');
+  return n;
+}
@@ -110,6 +110,8 @@ export interface ChatRequestDTO {
   parentMessageId?: string;
   thinking?: boolean;
   workMode?: string;
+  /** model ID from getChatModels; server default when omitted */
+  model?: string;
   platform?: string;
   message: {
     role: string;
@@ -136,6 +138,13 @@ export interface ChatMemory {
   createdAt: string;
 }
 
+/** Paged `getMemories` response (older servers return a bare array). */
+export interface ChatMemoriesPage {
+  memories?: ChatMemory[];
+  list?: ChatMemory[];
+  nextCursor?: string | null;
+}
+
 // ─── CrossChain Assets ──────────────────────────────────────────────────
 
 export interface WalletAsset {
@@ -298,6 +307,18 @@ export interface PerpsCancelOrdersDto {
   subAccountId?: string;
 }
 
+export interface PerpsModifyEntry {
+  /** id of the resting order to amend */
+  oid: number;
+  /** replacement order — same wire format as placeOrders */
+  order: PerpsOrder;
+}
+
+export interface PerpsModifyOrdersDto {
+  modifies: PerpsModifyEntry[];
+  subAccountId?: string;
+}
+
 export interface PerpsPosition {
   symbol?: string;
   side?: string;
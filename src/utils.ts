@@ -21,6 +21,11 @@ export function warn(msg: string): void {
   console.log(chalk.yellow('⚠'), msg);
 }
 
+/** `warn` on stderr, for output that may be piped as data (exports, `--json`). */
+export function warnStderr(msg: string): void {
+  console.error(chalk.yellow('⚠'), msg);
+}
+
 export function error(msg: string): void {
   console.error(chalk.red('✖'), msg);
 }
@@ -195,6 +200,17 @@ export function normalizeChain(raw?: string): Chain | undefined {
   return CHAIN_ALIAS[lower];
 }
 
+/**
+ * Reverse of the numeric entries in CHAIN_ALIAS — resolves a chain name or
+ * alias to the numeric chain ID used by the activity / token APIs.
+ */
+export function getChainId(raw?: string): number | undefined {
+  const chain = normalizeChain(raw);
+  if (!chain) return undefined;
+  const entry = Object.entries(CHAIN_ALIAS).find(([k, v]) => v === chain && /^\d+$/.test(k));
+  return entry ? Number(entry[0]) : undefined;
+}
+
 /** Capitalize chain name for display (e.g. "solana" → "Solana", "bsc" → "BSC"). */
 function displayChain(raw?: string): string {
   const name = normalizeChain(raw) ?? raw ?? 'unknown';
@@ -344,13 +360,15 @@ export function formatTokenLabel(token: TokenDisplayInfo): string {
  *
  * @param description  Short one-line summary of the operation.
  * @param token        Optional token metadata to highlight in the prompt.
+ * @param details      Optional fields shown above the prompt (`settings` is a
+ *                     one-line summary of per-trade overrides such as slippage).
  *
  * Exits the process if the user declines.
  */
 export async function requireTransactionConfirmation(
   description: string,
   token?: TokenDisplayInfo,
-  details?: { chain?: string; side?: string; amount?: string; destination?: string },
+  details?: { chain?: string; side?: string; amount?: string; destination?: string; settings?: string },
 ): Promise<void> {
   const config = loadConfig();
   if (config.confirmBeforeTransaction === false) return;
@@ -377,6 +395,9 @@ export async function requireTransactionConfirmation(
   if (details?.destination) {
     console.log(chalk.dim('  To       : ') + chalk.yellow(details.destination));
   }
+  if (details?.settings) {
+    console.log(chalk.dim('  Settings : ') + chalk.cyan(details.settings));
+  }
   console.log(chalk.dim(`  Action   : ${description}`));
   console.log('');
 
@@ -419,6 +440,40 @@ export function validateAddress(address: string, chain?: string): true | string
   return true;
 }
 
+// ─── Trade config values ──────────────────────────────────────────────────────
+
+/** Upper bound accepted for slippage, in percent. */
+export const MAX_SLIPPAGE_PERCENT = 50;
+
+/**
+ * Parse a slippage value into a percentage.
+ *
+ * Accepts a plain percentage (`0.5`, `0.5%`) or basis points (`50bps`).
+ * Throws if the value is not a number in the (0, 50%] range.
+ */
+export function parseSlippage(raw: string): number {
+  const v = raw.trim().toLowerCase();
+  const bpsMatch = /^([0-9.]+)\s*bps$/.exec(v);
+  const pct = bpsMatch ? Number(bpsMatch[1]) / 100 : Number(v.replace(/%$/, ''));
+  if (!v || isNaN(pct) || pct <= 0 || pct > MAX_SLIPPAGE_PERCENT) {
+    throw new Error(`Invalid slippage: ${raw}. Use a percentage (e.g. 0.5 or 0.5%) or basis points (e.g. 50bps), up to ${MAX_SLIPPAGE_PERCENT}%.`);
+  }
+  return pct;
+}
+
+/**
+ * Parse a non-negative fee value (priority fee, tip).
+ * Throws with a message naming `label` on invalid input.
+ */
+export function parseFee(raw: string, label: string): string {
+  const v = raw.trim();
+  const n = Number(v);
+  if (!v || isNaN(n) || n < 0) {
+    throw new Error(`${label} must be a non-negative number.`);
+  }
+  return v;
+}
+
 // ─── Browser ──────────────────────────────────────────────────────────────────
 
 /** Open a URL in the user's default browser (cross-platform). */
@@ -310,7 +310,7 @@ describe('Hyperliquid API', () => {
     expect(result).toEqual([{ name: 'ETH', maxLeverage: 50, szDecimals: 4, markPx: 2500 }]);
   });
 
-  it('getOpenOrders should POST to Hyperliquid info with openOrders and user', async () => {
+  it('getOpenOrders should POST to Hyperliquid info with frontendOpenOrders and user', async () => {
     mockFetch.mockResolvedValueOnce({
       json: vi.fn().mockResolvedValue([
         { coin: 'ETH', limitPx: '2500', oid: 1, side: 'B', sz: '0.1', timestamp: 1700000000 },
@@ -320,7 +320,7 @@ describe('Hyperliquid API', () => {
     expect(mockFetch).toHaveBeenCalledWith('https://api.hyperliquid.xyz/info', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type: 'openOrders', user: '0xUserAddr' }),
+      body: JSON.stringify({ type: 'frontendOpenOrders', user: '0xUserAddr' }),
     });
     expect(result).toHaveLength(1);
     expect(result[0].coin).toBe('ETH');
@@ -346,6 +346,18 @@ describe('Hyperliquid API', () => {
     expect(result[0].coin).toBe('ETH');
   });
 
+  it('getPortfolioHistory should POST portfolio and return the all-time perps account values', async () => {
+    mockFetch.mockResolvedValueOnce({
+      json: vi.fn().mockResolvedValue([
+        ['day', { accountValueHistory: [[1700000000000, '990.5']] }],
+        ['perpAllTime', { accountValueHistory: [[1690000000000, '1000'], [1700000000000, '990.5']] }],
+      ]),
+    });
+    const result = await perps.getPortfolioHistory('0xSub');
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ type: 'portfolio', user: '0xSub' });
+    expect(result).toEqual([[1690000000000, 1000], [1700000000000, 990.5]]);
+  });
+
   it('getUserLeverage should POST to Hyperliquid info with clearinghouseState', async () => {
     mockFetch.mockResolvedValueOnce({
       json: vi.fn().mockResolvedValue({
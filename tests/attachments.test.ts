@@ -0,0 +1,80 @@
+/**
+ * Unit tests for chat attachment loading.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  detectMime, loadAttachment, buildMessageContent, MAX_IMAGE_BYTES, MAX_TEXT_BYTES,
+} from '../src/attachments.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'minara-attach-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('detectMime', () => {
+  it('should detect images by magic bytes regardless of extension', () => {
+    expect(detectMime('chart.png', PNG)).toBe('image/png');
+    expect(detectMime('chart.dat', JPEG)).toBe('image/jpeg');
+  });
+
+  it('should detect text by extension or content', () => {
+    expect(detectMime('fills.csv', Buffer.from('a,b\n1,2'))).toBe('text/csv');
+    expect(detectMime('notes', Buffer.from('hello'))).toBe('text/plain');
+    expect(detectMime('blob.bin', Buffer.from([1, 0, 2]))).toBeUndefined();
+  });
+});
+
+describe('loadAttachment', () => {
+  it('should encode images as base64 image parts', () => {
+    const path = join(dir, 'shot.png');
+    writeFileSync(path, PNG);
+    expect(loadAttachment(path)).toEqual({ type: 'image', image: PNG.toString('base64'), mimeType: 'image/png' });
+  });
+
+  it('should inline CSV files as fenced text parts', () => {
+    const path = join(dir, 'fills.csv');
+    writeFileSync(path, 'coin,pnl\nBTC,10\n\n');
+    const part = loadAttachment(path);
+    expect(part.type).toBe('text');
+    expect(part.mimeType).toBe('text/csv');
+    expect(part.text).toBe('Attached file: fills.csv\n```csv\ncoin,pnl\nBTC,10\n```');
+  });
+
+  it('should reject missing, unsupported and oversized files', () => {
+    expect(() => loadAttachment(join(dir, 'nope.png'))).toThrow('Attachment not found');
+
+    const bin = join(dir, 'data.bin');
+    writeFileSync(bin, Buffer.from([0, 1, 2, 0]));
+    expect(() => loadAttachment(bin)).toThrow('Unsupported attachment type');
+
+    const bigText = join(dir, 'big.txt');
+    writeFileSync(bigText, 'x'.repeat(MAX_TEXT_BYTES + 1));
+    expect(() => loadAttachment(bigText)).toThrow('Text attachment too large');
+
+    const bigImage = join(dir, 'big.png');
+    writeFileSync(bigImage, Buffer.concat([PNG, Buffer.alloc(MAX_IMAGE_BYTES)]));
+    expect(() => loadAttachment(bigImage)).toThrow('Attachment too large');
+  });
+});
+
+describe('buildMessageContent', () => {
+  it('should return a plain string without attachments', () => {
+    expect(buildMessageContent('hi', [])).toBe('hi');
+  });
+
+  it('should prepend the prompt as a text part', () => {
+    const img = { type: 'image' as const, image: 'AAA', mimeType: 'image/png' };
+    expect(buildMessageContent('what is this?', [img])).toEqual([{ type: 'text', text: 'what is this?' }, img]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for terminal charts and series stats.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('chalk', () => {
+  const passthrough = (s: string) => s;
+  const handler: ProxyHandler<typeof passthrough> = {
+    get: () => new Proxy(passthrough, handler),
+    apply: (_t, _this, args) => args[0],
+  };
+  return { default: new Proxy(passthrough, handler) };
+});
+
+import { toMillis, toSeries, maxDrawdown, dailyChanges, sharpeRatio, sparkline, areaChart } from '../src/charts.js';
+
+const T0 = Date.UTC(2024, 0, 1);
+const DAY = 86_400_000;
+
+describe('toMillis', () => {
+  it('should normalise seconds, milliseconds and ISO strings', () => {
+    expect(toMillis(1_700_000_000)).toBe(1_700_000_000_000);
+    expect(toMillis(1_700_000_000_000)).toBe(1_700_000_000_000);
+    expect(toMillis('2024-01-01T00:00:00Z')).toBe(Date.UTC(2024, 0, 1));
+    expect(toMillis(undefined)).toBeNaN();
+  });
+});
+
+describe('toSeries', () => {
+  it('should pick the first present keys, skip bad rows and sort by time', () => {
+    const series = toSeries(
+      [
+        { date: T0 + DAY, totalValue: '20' },
+        { timestamp: T0, value: 10 },
+        { timestamp: T0 + DAY * 2 },
+      ],
+      ['timestamp', 'date'],
+      ['value', 'totalValue'],
+    );
+    expect(series).toEqual([{ time: T0, value: 10 }, { time: T0 + DAY, value: 20 }]);
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('should measure the largest peak-to-trough decline', () => {
+    expect(maxDrawdown([100, 120, 90, 110, 60, 130])).toEqual({ amount: 60, percent: 50 });
+    expect(maxDrawdown([1, 2, 3])).toEqual({ amount: 0, percent: 0 });
+  });
+});
+
+describe('dailyChanges', () => {
+  it('should diff daily closing values', () => {
+    const points = [
+      { time: Date.UTC(2024, 0, 1, 1), value: 100 },
+      { time: Date.UTC(2024, 0, 1, 23), value: 105 },
+      { time: Date.UTC(2024, 0, 2, 12), value: 95 },
+      { time: Date.UTC(2024, 0, 3, 12), value: 120 },
+    ];
+    expect(dailyChanges(points)).toEqual([
+      { date: '2024-01-02', change: -10 },
+      { date: '2024-01-03', change: 25 },
+    ]);
+  });
+});
+
+describe('sharpeRatio', () => {
+  const day = (i: number, value: number) => ({ time: T0 + DAY * i, value });
+
+  it('should annualise the mean / stdev of daily returns', () => {
+    // Returns: +10%, -10%, +10% → mean 0.0333, sample stdev 0.11547
+    const sharpe = sharpeRatio([day(0, 100), day(1, 110), day(2, 99), day(3, 108.9)]);
+    expect(sharpe).toBeCloseTo((0.1 / 3 / 0.11547) * Math.sqrt(365), 2);
+  });
+
+  it('should return null without enough data or variance', () => {
+    expect(sharpeRatio([day(0, 100), day(1, 110)])).toBeNull();
+    expect(sharpeRatio([day(0, 100), day(1, 100), day(2, 100)])).toBeNull();
+  });
+});
+
+describe('sparkline', () => {
+  it('should map min to the lowest block and max to the highest', () => {
+    expect(sparkline([0, 7, 21])).toBe('▁▃█');
+    expect(sparkline([])).toBe('');
+  });
+
+  it('should resample long series to the requested width', () => {
+    expect(sparkline(Array.from({ length: 500 }, (_, i) => i), 20)).toHaveLength(20);
+  });
+});
+
+describe('areaChart', () => {
+  it('should render height rows plus a date axis with y labels', () => {
+    const points = [0, 5, 10].map((v, i) => ({ time: Date.UTC(2024, 0, i + 1), value: v }));
+    const lines = areaChart(points, { height: 2, formatY: (n) => `$${n}` });
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain('$10 ┤');
+    expect(lines[1]).toContain(' $0 ┤');
+    expect(lines[0].endsWith('█')).toBe(true);
+    expect(lines[2]).toContain('Jan 1');
+    expect(lines[2]).toContain('Jan 3');
+  });
+
+  it('should return nothing for an empty series', () => {
+    expect(areaChart([])).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for chat history paging, thread ordering and export formats.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/api/chat.js', () => ({
+  getMemories: vi.fn(),
+}));
+
+import { getMemories } from '../src/api/chat.js';
+import {
+  extractMemoryPage, fetchAllMemories, orderThread, activeBranch, memoryText, toMarkdown, toHtml, toJson, type ChatExport,
+} from '../src/chat-history.js';
+import type { ChatMemory } from '../src/types.js';
+
+const mockGetMemories = vi.mocked(getMemories);
+
+function msg(id: string, role: 'user' | 'assistant', sec: number, parentMessageId?: string, content = id): ChatMemory {
+  return { id, role, content, parentMessageId, createdAt: new Date(Date.UTC(2024, 0, 1, 0, 0, sec)).toISOString() };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('extractMemoryPage', () => {
+  it('should accept bare arrays and paged envelopes', () => {
+    expect(extractMemoryPage([msg('a', 'user', 0)]).memories).toHaveLength(1);
+    expect(extractMemoryPage({ list: [msg('a', 'user', 0)], nextCursor: 'n' })).toMatchObject({ nextCursor: 'n' });
+    expect(extractMemoryPage(null)).toEqual({ memories: [] });
+  });
+});
+
+describe('fetchAllMemories', () => {
+  it('should follow cursors, skip duplicates and stop on a repeated cursor', async () => {
+    mockGetMemories
+      .mockResolvedValueOnce({ success: true, data: { memories: [msg('a', 'user', 0), msg('b', 'assistant', 1)], nextCursor: 'c1' } })
+      .mockResolvedValueOnce({ success: true, data: { memories: [msg('b', 'assistant', 1), msg('c', 'user', 2)], nextCursor: 'c1' } });
+
+    const all = await fetchAllMemories('tok', 'chat');
+    expect(all.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(mockGetMemories).toHaveBeenCalledTimes(2);
+    expect(mockGetMemories).toHaveBeenLastCalledWith('tok', 'chat', 100, 'c1');
+  });
+
+  it('should throw on API errors', async () => {
+    mockGetMemories.mockResolvedValueOnce({ success: false, error: { code: 500, message: 'boom' } });
+    await expect(fetchAllMemories('tok', 'chat')).rejects.toThrow('boom');
+  });
+
+  it('should warn on stderr when the page cap cuts the chat short', async () => {
+    let page = 0;
+    mockGetMemories.mockImplementation(async () => {
+      page++;
+      return { success: true, data: { memories: [msg(`m${page}`, 'user', page)], nextCursor: `c${page}` } };
+    });
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const all = await fetchAllMemories('tok', 'chat');
+
+    expect(all).toHaveLength(100);
+    expect(errSpy.mock.calls.flat().join(' ')).toContain('only the first 100 were loaded');
+    errSpy.mockRestore();
+  });
+});
+
+describe('orderThread', () => {
+  it('should walk the tree by parentMessageId with regenerated versions after the original', () => {
+    const entries = orderThread([
+      msg('a2', 'assistant', 5, 'u1'),
+      msg('u2', 'user', 3, 'a1'),
+      msg('a1', 'assistant', 1, 'u1'),
+      msg('u1', 'user', 0),
+    ]);
+    expect(entries.map((e) => e.memory.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(entries[1]).toMatchObject({ depth: 0, version: 1, versions: 2 });
+    expect(entries[3]).toMatchObject({ depth: 1, version: 2, versions: 2 });
+  });
+
+  it('should order flat lists without parent links by time', () => {
+    const entries = orderThread([msg('b', 'assistant', 1), msg('a', 'user', 0), msg('c', 'user', 2)]);
+    expect(entries.map((e) => e.memory.id)).toEqual(['a', 'b', 'c']);
+    expect(entries.every((e) => e.depth === 0 && e.versions === 1)).toBe(true);
+  });
+});
+
+describe('activeBranch', () => {
+  it('should follow the newest version at each step', () => {
+    const entries = activeBranch([
+      msg('u1', 'user', 0),
+      msg('a1', 'assistant', 1, 'u1'),
+      msg('u2', 'user', 2, 'a1'),
+      msg('a2', 'assistant', 3, 'u1'),
+      msg('u3', 'user', 4, 'a2'),
+    ]);
+    expect(entries.map((e) => e.memory.id)).toEqual(['u1', 'a2', 'u3']);
+    expect(entries[1]).toMatchObject({ version: 2, versions: 2 });
+  });
+});
+
+describe('memoryText', () => {
+  it('should flatten content parts', () => {
+    expect(memoryText({ parts: [{ type: 'text', text: 'look' }, { type: 'image', image: 'AAA' }] })).toBe('look\n\n[image]');
+    expect(memoryText({ foo: 1 })).toBe('{"foo":1}');
+  });
+});
+
+describe('export formats', () => {
+  const doc: ChatExport = {
+    chatId: 'chat-1',
+    name: 'L2 <research>',
+    exportedAt: '2024-01-02T00:00:00.000Z',
+    messages: orderThread([msg('u1', 'user', 0, undefined, 'Compare <b>L2s</b>'), msg('a1', 'assistant', 1, 'u1', 'Arbitrum\nBase')]),
+  };
+
+  it('should render markdown with roles and timestamps', () => {
+    const md = toMarkdown(doc);
+    expect(md).toContain('# L2 <research>');
+    expect(md).toContain('**You** · 2024-01-01T00:00:00.000Z');
+    expect(md).toContain('Arbitrum\nBase');
+  });
+
+  it('should escape HTML content', () => {
+    const html = toHtml(doc);
+    expect(html).toContain('<title>L2 &lt;research&gt;</title>');
+    expect(html).toContain('Compare &lt;b&gt;L2s&lt;/b&gt;');
+
+    const odd = { ...msg('x', 'user', 2), role: 'user" onclick="alert(1)' } as unknown as ChatMemory;
+    const escaped = toHtml({ ...doc, messages: orderThread([odd]) });
+    expect(escaped).toContain('class="msg user&quot; onclick=&quot;alert(1)"');
+  });
+
+  it('should keep ids and parent links in JSON', () => {
+    const json = JSON.parse(toJson(doc));
+    expect(json.messages[1]).toMatchObject({ id: 'a1', parentMessageId: 'u1', role: 'assistant' });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for chat REPL history persistence and multiline assembly.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync, existsSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+let tempDir: string;
+let historyEnabled = true;
+
+let stdinKind: 'fifo' | 'socket' = 'fifo';
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return {
+    ...actual,
+    fstatSync: vi.fn(() => ({ isFIFO: () => stdinKind === 'fifo', isFile: () => false })),
+  };
+});
+
+vi.mock('../src/config.js', () => ({
+  getMinaraDir: () => tempDir,
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai', chatHistory: historyEnabled }),
+}));
+
+import {
+  loadChatHistory, appendChatHistory, clearChatHistory, chatHistoryPath, createLineAssembler, readPipedInput,
+  CHAT_HISTORY_MAX,
+} from '../src/chat-input.js';
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'minara-history-'));
+  historyEnabled = true;
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('chat history', () => {
+  it('should persist prompts newest-first, flattening multiline entries', () => {
+    appendChatHistory('first');
+    appendChatHistory('line one\nline two');
+    appendChatHistory('line one\nline two');
+
+    expect(loadChatHistory()).toEqual(['line one line two', 'first']);
+    expect(readFileSync(chatHistoryPath(), 'utf-8')).toBe('"first"\n"line one\\nline two"\n');
+    expect(statSync(chatHistoryPath()).mode & 0o777).toBe(0o600);
+  });
+
+  it('should cap the file at CHAT_HISTORY_MAX entries', () => {
+    writeFileSync(chatHistoryPath(), Array.from({ length: CHAT_HISTORY_MAX }, (_, i) => JSON.stringify(`q${i}`)).join('\n'));
+    appendChatHistory('newest');
+
+    const history = loadChatHistory();
+    expect(history).toHaveLength(CHAT_HISTORY_MAX);
+    expect(history[0]).toBe('newest');
+    expect(history).not.toContain('q0');
+  });
+
+  it('should neither read nor write when history is disabled', () => {
+    appendChatHistory('kept');
+    historyEnabled = false;
+    appendChatHistory('private');
+
+    expect(loadChatHistory()).toEqual([]);
+    expect(readFileSync(chatHistoryPath(), 'utf-8')).not.toContain('private');
+    clearChatHistory();
+    expect(existsSync(chatHistoryPath())).toBe(false);
+  });
+});
+
+describe('createLineAssembler', () => {
+  it('should pass single lines straight through', () => {
+    expect(createLineAssembler().push('hello')).toBe('hello');
+  });
+
+  it('should collect a """ block into one message', () => {
+    const a = createLineAssembler();
+    expect(a.push('"""Research brief:')).toBeNull();
+    expect(a.pending).toBe(true);
+    expect(a.push('')).toBeNull();
+    expect(a.push('- compare ETH and SOL')).toBeNull();
+    expect(a.push('"""')).toBe('Research brief:\n\n- compare ETH and SOL');
+    expect(a.pending).toBe(false);
+  });
+
+  it('should accept a one-line """text"""', () => {
+    expect(createLineAssembler().push('"""quoted"""')).toBe('quoted');
+  });
+
+  it('should join held lines (Alt+Enter / paste) with the next submitted line', () => {
+    const a = createLineAssembler();
+    a.hold('pasted one');
+    a.hold('pasted two');
+    expect(a.push('typed')).toBe('pasted one\npasted two\ntyped');
+  });
+
+  it('should drop a partial message on reset', () => {
+    const a = createLineAssembler();
+    a.push('"""draft');
+    a.reset();
+    expect(a.pending).toBe(false);
+    expect(a.push('fresh')).toBe('fresh');
+  });
+});
+
+describe('readPipedInput', () => {
+  function fakeStdin(chunks: string[], end: boolean) {
+    const stream = new PassThrough();
+    for (const c of chunks) stream.write(c);
+    if (end) stream.end();
+    return vi.spyOn(process, 'stdin', 'get').mockReturnValue(Object.assign(stream, { isTTY: undefined }) as never);
+  }
+
+  it('should read a pipe to EOF', async () => {
+    stdinKind = 'fifo';
+    const spy = fakeStdin(['report ', 'text\n'], true);
+
+    await expect(readPipedInput()).resolves.toBe('report text');
+    spy.mockRestore();
+  });
+
+  it('should not wait on an open non-pipe stdin that never sends EOF', async () => {
+    stdinKind = 'socket';
+    const spy = fakeStdin(['partial'], false);
+
+    await expect(readPipedInput()).resolves.toBeUndefined();
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for chat stream parsing and rendering.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseStreamLine, parseSSE, extractTableRows, createStreamRenderer, type StreamEvent, type StreamMeta,
+} from '../src/chat-stream.js';
+
+function streamOf(lines: string[]): Response {
+  const body = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(lines.join('\n') + '\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+async function collect(response: Response, meta: StreamMeta = {}): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const e of parseSSE(response, meta)) events.push(e);
+  return events;
+}
+
+describe('parseStreamLine', () => {
+  it('should parse data-stream text, reasoning, tool and data frames', () => {
+    expect(parseStreamLine('0:"Hello"')).toEqual([{ type: 'text', text: 'Hello' }]);
+    expect(parseStreamLine('g:"Let me check"')).toEqual([{ type: 'reasoning', text: 'Let me check' }]);
+    expect(parseStreamLine('9:{"toolCallId":"t1","toolName":"getPrice","args":{"symbol":"BTC"}}')).toEqual([
+      { type: 'tool-call', toolCallId: 't1', toolName: 'getPrice', args: { symbol: 'BTC' } },
+    ]);
+    expect(parseStreamLine('a:{"toolCallId":"t1","result":{"price":1}}')).toEqual([
+      { type: 'tool-result', toolCallId: 't1', result: { price: 1 } },
+    ]);
+    expect(parseStreamLine('2:[{"a":1},{"b":2}]')).toEqual([
+      { type: 'data', data: { a: 1 } },
+      { type: 'data', data: { b: 2 } },
+    ]);
+    expect(parseStreamLine('3:"rate limited"')).toEqual([{ type: 'error', message: 'rate limited' }]);
+    expect(parseStreamLine('e:{"finishReason":"stop"}')).toEqual([]);
+  });
+
+  it('should handle SSE data lines instead of treating them as frame codes', () => {
+    const meta: StreamMeta = {};
+    expect(parseStreamLine('data: {"type":"start","messageId":"m1"}', meta)).toEqual([]);
+    expect(meta.messageId).toBe('m1');
+    expect(parseStreamLine('data: {"type":"text-delta","id":"x","delta":"Hi"}')).toEqual([{ type: 'text', text: 'Hi' }]);
+    expect(parseStreamLine('data: {"type":"reasoning-delta","delta":"hmm"}')).toEqual([{ type: 'reasoning', text: 'hmm' }]);
+    expect(parseStreamLine('data: {"type":"tool-input-available","toolCallId":"t","toolName":"search","input":{"q":"eth"}}')).toEqual([
+      { type: 'tool-call', toolCallId: 't', toolName: 'search', args: { q: 'eth' } },
+    ]);
+    expect(parseStreamLine('data: {"type":"data-chart","data":{"rows":[]}}')).toEqual([
+      { type: 'data', name: 'chart', data: { rows: [] } },
+    ]);
+    expect(parseStreamLine('data: {"choices":[{"delta":{"content":"yo"}}]}')).toEqual([{ type: 'text', text: 'yo' }]);
+    expect(parseStreamLine('data: [DONE]')).toBeNull();
+  });
+});
+
+describe('parseSSE', () => {
+  it('should stop at [DONE] and capture the message ID', async () => {
+    const meta: StreamMeta = {};
+    const events = await collect(streamOf(['f:{"messageId":"abc"}', 'g:"think"', '0:"Hi"', 'data: [DONE]', '0:"ignored"']), meta);
+    expect(events).toEqual([{ type: 'reasoning', text: 'think' }, { type: 'text', text: 'Hi' }]);
+    expect(meta.messageId).toBe('abc');
+  });
+});
+
+describe('extractTableRows', () => {
+  it('should accept row lists, column/row matrices and chart datasets', () => {
+    expect(extractTableRows([{ a: 1 }])).toEqual([{ a: 1 }]);
+    expect(extractTableRows({ columns: ['coin', 'price'], rows: [['BTC', 1]] })).toEqual([{ coin: 'BTC', price: 1 }]);
+    expect(extractTableRows({ type: 'chart', chart: { labels: ['Mon', 'Tue'], datasets: [{ label: 'BTC', data: [1, 2] }] } }))
+      .toEqual([{ label: 'Mon', BTC: 1 }, { label: 'Tue', BTC: 2 }]);
+    expect(extractTableRows({ foo: 'bar' })).toBeNull();
+  });
+});
+
+describe('createStreamRenderer', () => {
+  it('should render reasoning, tool status lines and text in order', () => {
+    let out = '';
+    const r = createStreamRenderer({ write: (s) => { out += s; } });
+    r.render({ type: 'reasoning', text: 'step one\nstep two' });
+    r.render({ type: 'tool-call', toolCallId: 't1', toolName: 'getPrice', args: { symbol: 'BTC' } });
+    r.render({ type: 'tool-result', toolCallId: 't1', result: {} });
+    r.render({ type: 'text', text: 'BTC is up.' });
+    r.finish();
+
+    expect(out).toContain('Thinking');
+    expect(out).toContain('│ step two');
+    expect(out).toContain('⚙ getPrice symbol=BTC');
+    expect(out).toContain('✔ getPrice done');
+    expect(out.indexOf('step one')).toBeLessThan(out.indexOf('BTC is up.'));
+    expect(r.reasoning).toBe('step one\nstep two');
+    expect(r.hasContent).toBe(true);
+  });
+
+  it('should collapse reasoning to a summary line when hidden', () => {
+    let out = '';
+    const r = createStreamRenderer({ showThinking: false, write: (s) => { out += s; } });
+    r.render({ type: 'reasoning', text: 'a b c' });
+    r.render({ type: 'text', text: 'Answer' });
+    expect(out).not.toContain('a b c');
+    expect(out).toContain('Thought for 3 words');
+    expect(out).toContain('Answer');
+  });
+
+  it('should flush buffered markdown before a tool status line', () => {
+    let out = '';
+    const r = createStreamRenderer({ markdown: true, write: (s) => { out += s; } });
+    r.render({ type: 'text', text: '- checking' });
+    expect(out).toBe('');
+    r.render({ type: 'tool-call', toolName: 'getPrice' });
+    expect(out.indexOf('checking')).toBeLessThan(out.indexOf('getPrice'));
+    expect(out).not.toContain('- checking');
+  });
+
+  it('should render markdown split into token-sized chunks like a single chunk', () => {
+    const text = 'Here is **bold text** now.\n\n| Token | Price |\n| --- | --- |\n| BTC | 100 |\n\n- done\n';
+    const render = (chunks: string[]) => {
+      let out = '';
+      const r = createStreamRenderer({ markdown: true, write: (s) => { out += s; } });
+      for (const chunk of chunks) r.render({ type: 'text', text: chunk });
+      r.finish();
+      return out;
+    };
+    const whole = render([text]);
+    const pieces = text.match(/[\s\S]{1,4}/g)!;
+    expect(render(pieces)).toBe(whole);
+    expect(whole).not.toContain('| Token | Price |');
+  });
+
+  it('should write table data parts through the write sink', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    let out = '';
+    const r = createStreamRenderer({ write: (s) => { out += s; } });
+    r.render({ type: 'text', text: 'Prices:' });
+    r.render({ type: 'data', name: 'table', data: { title: 'Top coins', rows: [{ coin: 'BTC', price: 100 }] } });
+    r.render({ type: 'text', text: 'Done' });
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(out).toContain('Top coins');
+    expect(out.indexOf('BTC')).toBeGreaterThan(out.indexOf('Prices:'));
+    expect(out.indexOf('BTC')).toBeLessThan(out.indexOf('Done'));
+    expect(out).toMatch(/┘\n(\u001b\[[0-9;]*m)*Done$/);
+    logSpy.mockRestore();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for saved chat prompt templates.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let tempDir: string;
+
+vi.mock('../src/config.js', () => ({
+  getMinaraDir: () => tempDir,
+}));
+
+import {
+  saveTemplate, loadTemplate, listTemplates, deleteTemplate, clearTemplates, templatesDir, templatePlaceholders, fillTemplate,
+} from '../src/chat-templates.js';
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'minara-templates-'));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('template storage', () => {
+  it('should save, list and load templates by name', () => {
+    saveTemplate({ name: 'DD', prompt: 'Due diligence on {{token}}', quality: true });
+    saveTemplate({ name: 'macro', prompt: 'Weekly macro brief' });
+
+    expect(existsSync(join(tempDir, 'templates', 'dd.json'))).toBe(true);
+    expect(listTemplates().map((t) => t.name)).toEqual(['DD', 'macro']);
+    expect(loadTemplate('dd')).toMatchObject({ prompt: 'Due diligence on {{token}}', quality: true });
+  });
+
+  it('should skip corrupted files when listing and reject bad names', () => {
+    saveTemplate({ name: 'ok', prompt: 'hi' });
+    writeFileSync(join(templatesDir(), 'broken.json'), '{not json');
+
+    expect(listTemplates().map((t) => t.name)).toEqual(['ok']);
+    expect(() => loadTemplate('broken')).toThrow('corrupted');
+    expect(() => saveTemplate({ name: '../evil', prompt: 'x' })).toThrow('Invalid template name');
+  });
+
+  it('should delete templates', () => {
+    saveTemplate({ name: 'tmp', prompt: 'x' });
+    deleteTemplate('tmp');
+    expect(() => loadTemplate('tmp')).toThrow('Template not found');
+  });
+
+  it('should clear every template', () => {
+    saveTemplate({ name: 'a', prompt: 'x' });
+    saveTemplate({ name: 'b', prompt: 'y' });
+    clearTemplates();
+    expect(existsSync(join(tempDir, 'templates'))).toBe(false);
+    expect(() => clearTemplates()).not.toThrow();
+  });
+});
+
+describe('placeholders', () => {
+  it('should list unique placeholders in order', () => {
+    expect(templatePlaceholders('{{token}} on {{ chain }} vs {{token}} {{horizon}}')).toEqual(['token', 'chain', 'horizon']);
+  });
+
+  it('should fill values and report missing ones', () => {
+    expect(fillTemplate('Analyze {{token}} on {{chain}}', { token: 'SOL', chain: 'solana' })).toBe('Analyze SOL on solana');
+    expect(() => fillTemplate('{{token}} {{chain}}', { token: 'SOL' })).toThrow('Missing value for {{chain}}');
+  });
+});
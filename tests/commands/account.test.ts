@@ -6,21 +6,64 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 vi.mock('../../src/config.js', () => ({
   requireAuth: vi.fn(),
   loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+  clearCredentials: vi.fn(),
+  clearConfig: vi.fn(),
 }));
 
 vi.mock('../../src/api/auth.js', () => ({
   getCurrentUser: vi.fn(),
+  getInviteHistory: vi.fn(),
+  deleteAccount: vi.fn(),
+}));
+
+vi.mock('../../src/api/client.js', () => ({
+  get: vi.fn(),
+}));
+
+vi.mock('../../src/api/perps.js', () => ({
+  listSubAccounts: vi.fn(),
+  getSubAccountSummary: vi.fn(),
+  getAccountSummary: vi.fn(),
+  getStrategies: vi.fn(),
+}));
+
+vi.mock('../../src/api/limitorder.js', () => ({
+  listLimitOrders: vi.fn(),
+}));
+
+vi.mock('../../src/chat-input.js', () => ({
+  clearChatHistory: vi.fn(),
+}));
+
+vi.mock('../../src/chat-templates.js', () => ({
+  clearTemplates: vi.fn(),
+}));
+
+vi.mock('../../src/touchid.js', () => ({
+  requireTouchId: vi.fn(),
+}));
+
+vi.mock('@inquirer/prompts', () => ({
+  input: vi.fn(),
 }));
 
 vi.mock('ora', () => ({
   default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
 }));
 
-import { requireAuth } from '../../src/config.js';
-import { getCurrentUser } from '../../src/api/auth.js';
+import { requireAuth, clearCredentials, clearConfig } from '../../src/config.js';
+import { getCurrentUser, getInviteHistory, deleteAccount } from '../../src/api/auth.js';
+import { get } from '../../src/api/client.js';
+import * as perpsApi from '../../src/api/perps.js';
+import { listLimitOrders } from '../../src/api/limitorder.js';
+import { clearChatHistory } from '../../src/chat-input.js';
+import { clearTemplates } from '../../src/chat-templates.js';
+import { requireTouchId } from '../../src/touchid.js';
+import { input } from '@inquirer/prompts';
 
 const mockRequireAuth = vi.mocked(requireAuth);
 const mockGetCurrentUser = vi.mocked(getCurrentUser);
+const mockGetInviteHistory = vi.mocked(getInviteHistory);
 
 beforeEach(() => {
   vi.clearAllMocks();
@@ -143,4 +186,243 @@ describe('account command', () => {
     logSpy.mockRestore();
     errorSpy.mockRestore();
   });
+
+  describe('invites', () => {
+    const history = [
+      { email: 'ann@test.com', createdAt: '2026-03-01T10:00:00Z', status: 'active', rewardAmount: '12.5' },
+      { username: 'ben', createdAt: '2026-04-02T10:00:00Z', status: 'pending', rewardAmount: 0 },
+      { email: 'cat@test.com', createdAt: '2026-05-03T10:00:00Z', status: 'active', rewardAmount: 7.5 },
+    ];
+
+    it('should list invitees with status and reward totals', async () => {
+      mockGetInviteHistory.mockResolvedValue({ success: true, data: history });
+      const { accountCommand } = await import('../../src/commands/account.js');
+
+      const output: string[] = [];
+      const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => {
+        output.push(args.join(' '));
+      });
+
+      await accountCommand.parseAsync(['invites'], { from: 'user' });
+
+      const fullOutput = output.join('\n');
+      expect(mockGetInviteHistory).toHaveBeenCalledWith('tok123');
+      expect(fullOutput).toContain('ann@test.com');
+      expect(fullOutput).toContain('ben');
+      expect(fullOutput).toContain('3 total');
+      expect(fullOutput).toMatch(/Active\s+: 2/);
+      expect(fullOutput).toMatch(/Pending\s+: 1/);
+      expect(fullOutput).toMatch(/Reward Amount\s+: \$20\.00/);
+
+      logSpy.mockRestore();
+    });
+
+    it('should print totals and raw records with --json', async () => {
+      mockGetInviteHistory.mockResolvedValue({
+        success: true,
+        data: { list: history, totalReward: 20 } as unknown as Record<string, unknown>[],
+      });
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const { setRawJson } = await import('../../src/formatters.js');
+      setRawJson(true);
+
+      const output: string[] = [];
+      const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => {
+        output.push(args.join(' '));
+      });
+
+      try {
+        await accountCommand.parseAsync(['invites'], { from: 'user' });
+      } finally {
+        setRawJson(false);
+        logSpy.mockRestore();
+      }
+
+      const parsed = JSON.parse(output.join('\n'));
+      expect(parsed.total).toBe(3);
+      expect(parsed.byStatus).toEqual({ active: 2, pending: 1 });
+      expect(parsed.rewards).toEqual({ rewardAmount: 20 });
+      expect(parsed.summary).toEqual({ totalReward: 20 });
+      expect(parsed.invites).toHaveLength(3);
+    });
+  });
+
+  describe('delete', () => {
+    const mockDelete = vi.mocked(deleteAccount);
+
+    function setupAccount(opts: { positions?: unknown[]; spot?: Record<string, unknown>[] } = {}) {
+      mockGetCurrentUser.mockResolvedValue({ success: true, data: { id: 'user-42', email: 'me@test.com' } });
+      vi.mocked(get).mockResolvedValue({ success: true, data: opts.spot ?? [] });
+      vi.mocked(perpsApi.listSubAccounts).mockResolvedValue({ success: true, data: [] });
+      vi.mocked(perpsApi.getAccountSummary).mockResolvedValue({
+        success: true,
+        data: { equityValue: 0, positions: opts.positions ?? [] },
+      } as never);
+      vi.mocked(perpsApi.getStrategies).mockResolvedValue({ success: true, data: [{ id: 's1', status: 'disabled' }] } as never);
+      vi.mocked(listLimitOrders).mockResolvedValue({ success: true, data: [{ id: 'lo1', status: 'filled' }] } as never);
+      mockDelete.mockResolvedValue({ success: true });
+    }
+
+    beforeEach(() => {
+      // Fresh command instance so --force doesn't leak between tests
+      vi.resetModules();
+    });
+
+    it('should delete the account and wipe local data once confirmed', async () => {
+      setupAccount({ spot: [{ tokenSymbol: 'DUST', balance: '1', marketPrice: '0.001' }] });
+      vi.mocked(input).mockResolvedValue(' ME@test.com ');
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await accountCommand.parseAsync(['delete'], { from: 'user' });
+
+      expect(requireTouchId).toHaveBeenCalledOnce();
+      expect(mockDelete).toHaveBeenCalledWith('tok123');
+      expect(clearCredentials).toHaveBeenCalledOnce();
+      expect(clearConfig).toHaveBeenCalledOnce();
+      expect(clearChatHistory).toHaveBeenCalledOnce();
+      expect(clearTemplates).toHaveBeenCalledOnce();
+      const deletedAt = mockDelete.mock.invocationCallOrder[0];
+      for (const wipe of [clearCredentials, clearConfig, clearChatHistory, clearTemplates]) {
+        expect(vi.mocked(wipe).mock.invocationCallOrder[0]).toBeGreaterThan(deletedAt);
+      }
+      logSpy.mockRestore();
+    });
+
+    it('should keep local data when the delete request fails', async () => {
+      setupAccount();
+      mockDelete.mockResolvedValue({ success: false, error: { code: 500, message: 'server down' } });
+      vi.mocked(input).mockResolvedValue('me@test.com');
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      expect(mockDelete).toHaveBeenCalledOnce();
+      expect(errorSpy.mock.calls.flat().join(' ')).toContain('server down');
+      expect(clearCredentials).not.toHaveBeenCalled();
+      expect(clearConfig).not.toHaveBeenCalled();
+      expect(clearChatHistory).not.toHaveBeenCalled();
+      expect(clearTemplates).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should refuse when the account has no email to confirm with', async () => {
+      setupAccount();
+      mockGetCurrentUser.mockResolvedValue({ success: true, data: { id: 'user-42', username: 'me' } });
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      expect(errorSpy.mock.calls.flat().join(' ')).toContain('No email address on file');
+      expect(input).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(clearCredentials).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should refuse while positions or funds remain', async () => {
+      setupAccount({
+        positions: [{ symbol: 'BTC', size: 0.1 }],
+        spot: [{ tokenSymbol: 'USDC', balance: '50', marketPrice: '1' }],
+      });
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      expect(errorSpy.mock.calls.flat().join(' ')).toContain('perps positions, spot balances');
+      expect(input).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(clearCredentials).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should count positions in sub-wallet summaries and running strategies', async () => {
+      setupAccount();
+      vi.mocked(perpsApi.listSubAccounts).mockResolvedValue({ success: true, data: [{ _id: 'w1' }, { _id: 'w2' }] } as never);
+      vi.mocked(perpsApi.getSubAccountSummary).mockImplementation(async (_t, id) => ({
+        success: true,
+        data: id === 'w1'
+          ? { marginSummary: { accountValue: '0' }, assetPositions: [{ position: { coin: 'BTC', szi: '0.1' } }] }
+          : { marginSummary: { accountValue: '0' }, assetPositions: [] },
+      }));
+      vi.mocked(perpsApi.getStrategies).mockResolvedValue({ success: true, data: [{ _id: 's1', isActive: true }] } as never);
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      const out = logSpy.mock.calls.flat().join(' ');
+      expect(perpsApi.getSubAccountSummary).toHaveBeenCalledWith('tok123', 'w2');
+      expect(out).toContain('1 open across 2 wallets');
+      expect(out).toContain('1 running');
+      expect(mockDelete).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should treat an unverifiable check as blocking', async () => {
+      setupAccount();
+      vi.mocked(listLimitOrders).mockResolvedValue({ success: false, error: { code: 500, message: 'boom' } });
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      expect(logSpy.mock.calls.flat().join(' ')).toContain('could not verify (boom)');
+      expect(mockDelete).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should proceed past blockers with --force', async () => {
+      setupAccount({ positions: [{ symbol: 'ETH' }] });
+      vi.mocked(input).mockResolvedValue('me@test.com');
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await accountCommand.parseAsync(['delete', '--force'], { from: 'user' });
+
+      expect(mockDelete).toHaveBeenCalledOnce();
+      logSpy.mockRestore();
+    });
+
+    it('should not delete when the typed email does not match', async () => {
+      setupAccount();
+      vi.mocked(input).mockResolvedValue('someone@else.com');
+      const { accountCommand } = await import('../../src/commands/account.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(accountCommand.parseAsync(['delete'], { from: 'user' })).rejects.toThrow('exit');
+
+      expect(requireTouchId).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(clearCredentials).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,120 @@
+/**
+ * Integration tests for the activity command.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/crosschain.js', () => ({
+  getActivities: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+vi.mock('../../src/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils.js')>();
+  return { ...actual, lookupToken: vi.fn() };
+});
+
+import { requireAuth } from '../../src/config.js';
+import { getActivities } from '../../src/api/crosschain.js';
+import { lookupToken } from '../../src/utils.js';
+
+const mockRequireAuth = vi.mocked(requireAuth);
+const mockGetActivities = vi.mocked(getActivities);
+const mockLookupToken = vi.mocked(lookupToken);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockRequireAuth.mockReturnValue({ accessToken: 'act-token' });
+});
+
+describe('activity command', () => {
+  it('should request the given page with resolved filters', async () => {
+    mockLookupToken.mockResolvedValueOnce({ symbol: 'USDC', address: '0xUSDC', chain: 'base' });
+    mockGetActivities.mockResolvedValueOnce({ success: true, data: [{ type: 'swap', tokenSymbol: 'USDC' }] });
+
+    const { activityCommand } = await import('../../src/commands/activity.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await activityCommand.parseAsync(
+      ['-c', 'base', '-t', '$USDC', '--tag', 'swap', '--tag', 'buy', '--page', '2', '--limit', '10'],
+      { from: 'user' },
+    );
+
+    expect(mockGetActivities).toHaveBeenCalledWith('act-token', {
+      page: 2,
+      limit: 10,
+      filter: { chainId: 8453, tokenAddress: '0xUSDC', tags: ['swap', 'buy'] },
+    });
+    logSpy.mockRestore();
+  });
+
+  it('should follow pages with --all and export CSV', async () => {
+    mockGetActivities
+      .mockResolvedValueOnce({ success: true, data: [{ id: 1, type: 'swap' }, { id: 2, type: 'transfer' }] })
+      .mockResolvedValueOnce({ success: true, data: { activities: [{ id: 3, type: 'swap' }] } });
+
+    const dir = mkdtempSync(join(tmpdir(), 'minara-activity-'));
+    const out = join(dir, 'history.csv');
+
+    const { activityCommand } = await import('../../src/commands/activity.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await activityCommand.parseAsync(['--all', '--limit', '2', '-o', out], { from: 'user' });
+
+    expect(mockGetActivities).toHaveBeenCalledTimes(2);
+    expect(mockGetActivities.mock.calls[1][1]).toMatchObject({ page: 2, limit: 2 });
+    expect(readFileSync(out, 'utf-8')).toBe('id,type\n1,swap\n2,transfer\n3,swap\n');
+
+    logSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should warn on stderr when --all hits the page cap', async () => {
+    mockGetActivities.mockResolvedValue({ success: true, data: [{ id: 1, type: 'swap' }] });
+
+    const dir = mkdtempSync(join(tmpdir(), 'minara-activity-'));
+    const out = join(dir, 'history.json');
+
+    const { activityCommand } = await import('../../src/commands/activity.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await activityCommand.parseAsync(['--all', '--limit', '1', '-o', out], { from: 'user' });
+
+    expect(mockGetActivities).toHaveBeenCalledTimes(100);
+    expect(JSON.parse(readFileSync(out, 'utf-8'))).toHaveLength(100);
+    const warned = errorSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+    expect(warned).toContain('Stopped after 100 pages; only the first 100 activities were fetched.');
+
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject unsupported chains before calling the API', async () => {
+    const { activityCommand } = await import('../../src/commands/activity.js');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      activityCommand.parseAsync(['-c', 'dogechain'], { from: 'user' }),
+    ).rejects.toThrow('exit');
+
+    expect(mockGetActivities).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Integration tests for the assets pnl command.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/crosschain.js', () => ({
+  getPnlHistory: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+import { requireAuth } from '../../src/config.js';
+import { getPnlHistory } from '../../src/api/crosschain.js';
+
+const mockRequireAuth = vi.mocked(requireAuth);
+const mockGetPnlHistory = vi.mocked(getPnlHistory);
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockRequireAuth.mockReturnValue({ accessToken: 'pnl-token' });
+});
+
+describe('assets pnl', () => {
+  it('should fetch the range and print summary stats as JSON', async () => {
+    mockGetPnlHistory.mockResolvedValueOnce({
+      success: true,
+      data: {
+        history: [
+          { timestamp: T0, totalValue: 1000, pnl: 0 },
+          { timestamp: T0 + DAY, totalValue: 1200, pnl: 200 },
+          { timestamp: T0 + DAY * 2, totalValue: 900, pnl: -100 },
+          { timestamp: T0 + DAY * 3, totalValue: 1100, pnl: 100 },
+        ],
+      },
+    });
+
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    const { assetsCommand } = await import('../../src/commands/assets.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await assetsCommand.parseAsync(['pnl', '--range', '7D'], { from: 'user' });
+
+    expect(mockGetPnlHistory).toHaveBeenCalledWith('pnl-token', '7d');
+    const out = JSON.parse(logSpy.mock.calls[0][0] as string);
+    expect(out.range).toBe('7d');
+    expect(out.stats).toMatchObject({
+      startValue: 1000,
+      endValue: 1100,
+      pnl: 100,
+      maxDrawdown: 300,
+      maxDrawdownPercent: 25,
+      bestDay: { date: '2024-01-02', change: 200 },
+      worstDay: { date: '2024-01-03', change: -300 },
+    });
+    expect(out.history).toHaveLength(4);
+    logSpy.mockRestore();
+    setRawJson(false);
+  });
+
+  it('should render a chart and stats in table mode', async () => {
+    mockGetPnlHistory.mockResolvedValueOnce({
+      success: true,
+      data: [
+        { timestamp: T0, totalValue: 1000 },
+        { timestamp: T0 + DAY, totalValue: 1050 },
+      ],
+    });
+
+    const { assetsCommand } = await import('../../src/commands/assets.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await assetsCommand.parseAsync(['pnl'], { from: 'user' });
+
+    expect(mockGetPnlHistory).toHaveBeenCalledWith('pnl-token', '30d');
+    const output = logSpy.mock.calls.map((c) => String(c[0])).join('\n');
+    expect(output).toContain('Max Drawdown');
+    expect(output).toContain('Best Day');
+    expect(output).toContain('█');
+    logSpy.mockRestore();
+  });
+
+  it('should reject unknown ranges before calling the API', async () => {
+    const { assetsCommand } = await import('../../src/commands/assets.js');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      assetsCommand.parseAsync(['pnl', '--range', '1y'], { from: 'user' }),
+    ).rejects.toThrow('exit');
+
+    expect(mockGetPnlHistory).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
@@ -2,31 +2,69 @@
  * Integration tests for the chat, ask, and research commands.
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { createInterface } from 'node:readline';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let minaraDir: string;
 
 vi.mock('../../src/config.js', () => ({
   requireAuth: vi.fn(),
+  getMinaraDir: () => minaraDir,
   loadConfig: () => ({ baseUrl: 'https://api.minara.ai', confirmBeforeTransaction: false }),
 }));
 
 vi.mock('../../src/api/chat.js', () => ({
   sendChatStream: vi.fn(),
+  stopChat: vi.fn(),
   listChats: vi.fn(),
+  getChat: vi.fn(),
   getMemories: vi.fn(),
+  updateChatName: vi.fn(),
+  deleteChat: vi.fn(),
+  searchChats: vi.fn(),
+  getChatModels: vi.fn(),
+}));
+
+vi.mock('../../src/chat-input.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/chat-input.js')>()),
+  readPipedInput: vi.fn(),
 }));
 
+vi.mock('node:readline', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:readline')>();
+  return { ...actual, createInterface: vi.fn(actual.createInterface) };
+});
+
 vi.mock('ora', () => ({
   default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
 }));
 
 vi.mock('@inquirer/prompts', () => ({
   select: vi.fn(),
+  confirm: vi.fn(),
+  input: vi.fn(),
 }));
 
 import { requireAuth } from '../../src/config.js';
-import { sendChatStream } from '../../src/api/chat.js';
+import { sendChatStream, stopChat, getChat, getMemories, updateChatName, deleteChat, searchChats, getChatModels } from '../../src/api/chat.js';
+import { confirm } from '@inquirer/prompts';
+import { readPipedInput } from '../../src/chat-input.js';
 
 const mockRequireAuth = vi.mocked(requireAuth);
 const mockSendChatStream = vi.mocked(sendChatStream);
+const mockStopChat = vi.mocked(stopChat);
+const mockUpdateChatName = vi.mocked(updateChatName);
+const mockDeleteChat = vi.mocked(deleteChat);
+const mockSearchChats = vi.mocked(searchChats);
+const mockGetChatModels = vi.mocked(getChatModels);
+const mockGetChat = vi.mocked(getChat);
+const mockGetMemories = vi.mocked(getMemories);
+const mockConfirm = vi.mocked(confirm);
+const mockReadPipedInput = vi.mocked(readPipedInput);
+const mockCreateInterface = vi.mocked(createInterface);
 
 /** Build a minimal SSE Response mock for single-shot chat */
 function mockSSEResponse(text: string): Response {
@@ -160,3 +198,505 @@ describe('research command', () => {
     writeSpy.mockRestore();
   });
 });
+
+describe('chat session management', () => {
+  it('should still treat a plain message as a single-shot chat', async () => {
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('Hi'));
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await chatCommand.parseAsync(['hello there'], { from: 'user' });
+
+    expect(mockSendChatStream.mock.calls[0][1]).toMatchObject({
+      message: { role: 'user', content: 'hello there' },
+    });
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should send an unquoted message starting with rename / delete / search as chat', async () => {
+    mockSendChatStream.mockResolvedValue(mockSSEResponse('Hi'));
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await chatCommand.parseAsync(['delete my old positions?'], { from: 'user' });
+    await chatCommand.parseAsync(['delete', 'my', 'limit', 'orders?'], { from: 'user' });
+    await chatCommand.parseAsync(['search', 'for', 'eth', 'yield'], { from: 'user' });
+
+    expect(mockDeleteChat).not.toHaveBeenCalled();
+    expect(mockSendChatStream).toHaveBeenCalledTimes(3);
+    expect(mockSendChatStream.mock.calls[0][1]).toMatchObject({
+      message: { role: 'user', content: 'delete my old positions?' },
+    });
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should rename a chat, joining multi-word names', async () => {
+    mockUpdateChatName.mockResolvedValueOnce({ success: true });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await chatCommand.parseAsync(['history', 'rename', 'chat-123', 'BTC', 'macro', 'notes'], { from: 'user' });
+
+    expect(mockUpdateChatName).toHaveBeenCalledWith('test-token', 'chat-123', 'BTC macro notes');
+    logSpy.mockRestore();
+  });
+
+  it('should delete several chats after confirmation', async () => {
+    mockConfirm.mockResolvedValueOnce(true);
+    mockDeleteChat.mockResolvedValue({ success: true });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await chatCommand.parseAsync(['history', 'delete', 'c1', 'c2'], { from: 'user' });
+
+    expect(mockConfirm).toHaveBeenCalledOnce();
+    expect(mockDeleteChat).toHaveBeenCalledWith('test-token', 'c1');
+    expect(mockDeleteChat).toHaveBeenCalledWith('test-token', 'c2');
+    logSpy.mockRestore();
+  });
+
+  it('should not delete when confirmation is declined', async () => {
+    mockConfirm.mockResolvedValueOnce(false);
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    await chatCommand.parseAsync(['history', 'delete', 'c1'], { from: 'user' });
+
+    expect(mockDeleteChat).not.toHaveBeenCalled();
+  });
+
+  it('should exit non-zero when a delete fails', async () => {
+    mockDeleteChat
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: { code: 404, message: 'Not found' } });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+
+    await expect(
+      chatCommand.parseAsync(['history', 'delete', 'c1', 'c2', '-y'], { from: 'user' }),
+    ).rejects.toThrow('exit');
+
+    expect(mockConfirm).not.toHaveBeenCalled();
+    expect(mockDeleteChat).toHaveBeenCalledTimes(2);
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should search chats and print full IDs', async () => {
+    mockSearchChats.mockResolvedValueOnce({
+      success: true,
+      data: [{ chatId: 'chat-abcdef-123456', name: 'ETH staking', updatedAt: '2024-01-01' }],
+    });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+
+    await chatCommand.parseAsync(['history', 'search', 'eth', 'staking', '-l', '5'], { from: 'user' });
+
+    expect(mockSearchChats).toHaveBeenCalledWith('test-token', 'eth staking', 5);
+    expect(output.join('\n')).toContain('chat-abcdef-123456');
+    logSpy.mockRestore();
+  });
+});
+
+describe('interrupting a streaming reply', () => {
+  it('should abort the stream and call stopChat with the server message ID on Ctrl+C', async () => {
+    let firstChunk!: () => void;
+    const started = new Promise<void>((r) => { firstChunk = r; });
+
+    mockSendChatStream.mockImplementationOnce(async (_token, _dto, signal) => {
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('f:{"messageId":"msg-server-1"}\n0:"Thinking about"\n'));
+          signal?.addEventListener('abort', () => {
+            controller.error(new DOMException('Aborted', 'AbortError'));
+          });
+        },
+      });
+      return new Response(body, { status: 200 });
+    });
+    mockStopChat.mockResolvedValueOnce({ success: true });
+
+    const { askCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      if (String(chunk).includes('Thinking about')) firstChunk();
+      return true;
+    });
+    let sigint: (() => void) | undefined;
+    const onceSpy = vi.spyOn(process, 'once').mockImplementation(((event: string, fn: () => void) => {
+      if (event === 'SIGINT') sigint = fn;
+      return process;
+    }) as never);
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+
+    const run = askCommand.parseAsync(['long question'], { from: 'user' });
+    await started;
+    sigint!();
+    await run;
+    await vi.waitFor(() => expect(exitSpy).toHaveBeenCalledWith(130));
+
+    const signal = mockSendChatStream.mock.calls[0][2];
+    expect(signal?.aborted).toBe(true);
+    expect(mockStopChat).toHaveBeenCalledWith('test-token', 'msg-server-1');
+    expect(logSpy.mock.calls.flat().join(' ')).toContain('interrupted');
+
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+    onceSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+});
+
+describe('model selection', () => {
+  it('should list models with --models', async () => {
+    mockGetChatModels.mockResolvedValueOnce({
+      success: true,
+      data: [
+        { id: 'gpt-x', name: 'GPT X', description: 'Fast general model' },
+        { id: 'deep-r1', description: 'Reasoning' },
+      ],
+    });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+
+    await chatCommand.parseAsync(['--models'], { from: 'user' });
+
+    const text = output.join('\n');
+    expect(text).toContain('gpt-x');
+    expect(text).toContain('deep-r1');
+    expect(mockSendChatStream).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it('should pass --model through on research', async () => {
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('ok'));
+
+    const { researchCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await researchCommand.parseAsync(['-m', 'deep-r1', 'Analyze ETH'], { from: 'user' });
+
+    expect(mockSendChatStream.mock.calls[0][1]).toMatchObject({ model: 'deep-r1', workMode: 'quality' });
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should omit model when not specified', async () => {
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('ok'));
+
+    const { askCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await askCommand.parseAsync(['hi'], { from: 'user' });
+
+    expect(mockSendChatStream.mock.calls[0][1]).not.toHaveProperty('model');
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+});
+
+describe('attachments', () => {
+  it('should send --attach files as content parts with the message', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'minara-chat-'));
+    const png = join(dir, 'chart.png');
+    const csv = join(dir, 'fills.csv');
+    writeFileSync(png, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 9]));
+    writeFileSync(csv, 'coin,pnl\nBTC,10\n');
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('ok'));
+
+    const { askCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await askCommand.parseAsync(['--attach', png, '-a', csv, 'Explain these'], { from: 'user' });
+
+    const content = mockSendChatStream.mock.calls[0][1].message.content;
+    expect(Array.isArray(content)).toBe(true);
+    expect(content).toHaveLength(3);
+    expect(content[0]).toEqual({ type: 'text', text: 'Explain these' });
+    expect(content[1]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    expect(content[2]).toMatchObject({ type: 'text', mimeType: 'text/csv' });
+
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('chat export', () => {
+  it('should follow nextCursor and write the thread in parent order', async () => {
+    mockGetMemories
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          memories: [{ id: 'a1', role: 'assistant', content: 'BTC is **up**', parentMessageId: 'u1', createdAt: '2024-01-01T00:00:05Z' }],
+          nextCursor: 'c2',
+        },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { memories: [{ id: 'u1', role: 'user', content: 'Price of BTC?', createdAt: '2024-01-01T00:00:00Z' }] },
+      });
+    mockGetChat.mockResolvedValueOnce({ success: true, data: { chatId: 'chat-1', name: 'BTC research' } });
+
+    const dir = mkdtempSync(join(tmpdir(), 'minara-export-'));
+    const out = join(dir, 'thread.md');
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await chatCommand.parseAsync(['export', 'chat-1', '--out', out], { from: 'user' });
+
+    expect(mockGetMemories).toHaveBeenCalledTimes(2);
+    expect(mockGetMemories.mock.calls[1][3]).toBe('c2');
+    const md = readFileSync(out, 'utf-8');
+    expect(md).toContain('# BTC research');
+    expect(md.indexOf('Price of BTC?')).toBeLessThan(md.indexOf('BTC is **up**'));
+    expect(md).toContain('2024-01-01T00:00:05Z');
+
+    logSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject unknown formats', async () => {
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+
+    await expect(chatCommand.parseAsync(['export', 'chat-1', '--format', 'pdf'], { from: 'user' })).rejects.toThrow('exit');
+    expect(mockGetMemories).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+});
+
+describe('chat --history', () => {
+  it('should load every page and print only the last --tail messages of the active branch', async () => {
+    mockGetMemories
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          memories: [
+            { id: 'u1', role: 'user', content: 'first question', createdAt: '2024-01-01T00:00:00Z' },
+            { id: 'a1', role: 'assistant', content: 'old answer', parentMessageId: 'u1', createdAt: '2024-01-01T00:00:01Z' },
+          ],
+          nextCursor: 'c2',
+        },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ id: 'a2', role: 'assistant', content: 'regenerated answer', parentMessageId: 'u1', createdAt: '2024-01-01T00:00:02Z' }],
+      });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await chatCommand.parseAsync(['--history', 'chat-1', '--tail', '1'], { from: 'user' });
+
+    const output = logSpy.mock.calls.flat().join('\n');
+    expect(mockGetMemories).toHaveBeenCalledTimes(2);
+    expect(output).toContain('regenerated answer');
+    expect(output).toContain('version 2/2');
+    expect(output).toContain('1 earlier message');
+    expect(output).not.toContain('old answer');
+    expect(output).not.toContain('first question');
+
+    logSpy.mockRestore();
+  });
+});
+
+describe('scripted ask', () => {
+  function multiPartResponse(frames: string[]): Response {
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(frames.join('\n') + '\n'));
+        controller.close();
+      },
+    });
+    return new Response(body, { status: 200 });
+  }
+
+  it('should combine piped stdin with the prompt', async () => {
+    mockReadPipedInput.mockResolvedValueOnce('Q3 report: revenue down 10%');
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('ok'));
+
+    const { askCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await askCommand.parseAsync(['summarize risks'], { from: 'user' });
+
+    expect(mockSendChatStream.mock.calls[0][1].message.content).toBe('summarize risks\n\nQ3 report: revenue down 10%');
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should only read stdin for ask / research or an explicit - message', async () => {
+    mockSendChatStream.mockResolvedValue(mockSSEResponse('ok'));
+    mockReadPipedInput.mockResolvedValue('piped notes');
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await chatCommand.parseAsync(['hello'], { from: 'user' });
+    expect(mockReadPipedInput).not.toHaveBeenCalled();
+    expect(mockSendChatStream.mock.calls[0][1].message.content).toBe('hello');
+
+    await chatCommand.parseAsync(['-'], { from: 'user' });
+    expect(mockReadPipedInput).toHaveBeenCalledWith(true);
+    expect(mockSendChatStream.mock.calls[1][1].message.content).toBe('piped notes');
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should print a single JSON object with --json', async () => {
+    mockSendChatStream.mockResolvedValueOnce(multiPartResponse(['f:{"messageId":"m-1"}', 'g:"hmm"', '0:"BTC is "', '0:"up."']));
+
+    const { askCommand } = await import('../../src/commands/chat.js');
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await askCommand.parseAsync(['-c', 'chat-9', 'BTC?'], { from: 'user' });
+
+    expect(writeSpy).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({ chatId: 'chat-9', messageId: 'm-1', text: 'BTC is up.' });
+
+    setRawJson(false);
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+  });
+
+  it('should write the answer to --output', async () => {
+    mockSendChatStream.mockResolvedValueOnce(multiPartResponse(['0:"# Daily note\\n"', '0:"- ETH flat"']));
+    const dir = mkdtempSync(join(tmpdir(), 'minara-out-'));
+    const out = join(dir, 'note.md');
+
+    const { researchCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await researchCommand.parseAsync(['--output', out, 'daily note'], { from: 'user' });
+
+    expect(readFileSync(out, 'utf-8')).toBe('# Daily note\n- ETH flat\n');
+    expect(logSpy.mock.calls.flat().join(' ')).toContain('Saved answer');
+
+    logSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('chat template', () => {
+  beforeEach(() => {
+    minaraDir = mkdtempSync(join(tmpdir(), 'minara-tpl-'));
+  });
+
+  it('should fill placeholders from flags and apply the template mode defaults', async () => {
+    const { saveTemplate } = await import('../../src/chat-templates.js');
+    saveTemplate({ name: 'dd', prompt: 'Due diligence on {{token}} ({{chain}}), horizon {{horizon}}', quality: true, thinking: true });
+    mockSendChatStream.mockResolvedValueOnce(mockSSEResponse('ok'));
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await chatCommand.parseAsync(['template', 'run', 'dd', '-t', 'SOL', '--chain', 'solana', '--var', 'horizon=1w', '--no-thinking'], { from: 'user' });
+
+    const dto = mockSendChatStream.mock.calls[0][1];
+    expect(dto.message.content).toBe('Due diligence on SOL (solana), horizon 1w');
+    expect(dto.workMode).toBe('quality');
+    expect(dto.thinking).toBe(false);
+
+    logSpy.mockRestore();
+    writeSpy.mockRestore();
+    rmSync(minaraDir, { recursive: true, force: true });
+  });
+
+  it('should save a template with add', async () => {
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await chatCommand.parseAsync(['template', 'add', 'macro', '-p', 'Weekly macro brief', '--quality'], { from: 'user' });
+
+    const { loadTemplate } = await import('../../src/chat-templates.js');
+    expect(loadTemplate('macro')).toMatchObject({ prompt: 'Weekly macro brief', quality: true });
+
+    logSpy.mockRestore();
+    rmSync(minaraDir, { recursive: true, force: true });
+  });
+});
+
+describe('REPL', () => {
+  /** Stand-in for the REPL's readline: tests feed it lines directly. */
+  function fakeReadline() {
+    const rl = Object.assign(new EventEmitter(), {
+      terminal: false,
+      line: '',
+      setPrompt: vi.fn(),
+      prompt: vi.fn(),
+      pause: vi.fn(),
+      resume: vi.fn(),
+      write: vi.fn(),
+      close: vi.fn(() => { rl.emit('close'); }),
+    });
+    return rl;
+  }
+
+  it('should not send lines typed into an inquirer prompt as chat messages', async () => {
+    minaraDir = mkdtempSync(join(tmpdir(), 'minara-repl-'));
+    const rl = fakeReadline();
+    mockCreateInterface.mockReturnValueOnce(rl as never);
+    mockDeleteChat.mockResolvedValue({ success: true });
+    // The answer also reaches the REPL's readline while the confirm is open
+    mockConfirm.mockImplementationOnce(async () => {
+      rl.emit('line', 'y');
+      return true;
+    });
+
+    const { chatCommand } = await import('../../src/commands/chat.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+
+    try {
+      const run = chatCommand.parseAsync([], { from: 'user' });
+      await vi.waitFor(() => expect(rl.prompt).toHaveBeenCalled());
+      rl.emit('line', '/delete c1111111-aaaa');
+      await vi.waitFor(() => expect(mockDeleteChat).toHaveBeenCalledWith('test-token', 'c1111111-aaaa'));
+      await vi.waitFor(() => expect(rl.prompt).toHaveBeenCalledTimes(2));
+      rl.emit('line', 'exit');
+      await run;
+
+      expect(rl.pause).toHaveBeenCalled();
+      expect(rl.resume).toHaveBeenCalled();
+      expect(mockSendChatStream).not.toHaveBeenCalled();
+      expect(mockReadPipedInput).not.toHaveBeenCalled();
+    } finally {
+      logSpy.mockRestore();
+      writeSpy.mockRestore();
+      exitSpy.mockRestore();
+      rmSync(minaraDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Integration tests for the discover command.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadCredentials: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/tokens.js', () => ({
+  searchTokens: vi.fn(),
+  getProjectInfo: vi.fn(),
+  getStockInfo: vi.fn(),
+}));
+
+vi.mock('../../src/commands/swap.js', () => ({
+  swapCommand: { parseAsync: vi.fn() },
+}));
+
+vi.mock('../../src/api/tradeconfig.js', () => ({
+  getGasFees: vi.fn(),
+}));
+
+vi.mock('../../src/api/client.js', () => ({
+  get: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+vi.mock('@inquirer/prompts', () => ({
+  input: vi.fn(),
+  select: vi.fn(),
+  confirm: vi.fn(),
+}));
+
+vi.mock('../../src/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils.js')>();
+  return { ...actual, lookupToken: vi.fn() };
+});
+
+import { requireAuth, loadCredentials } from '../../src/config.js';
+import { searchTokens, getProjectInfo, getStockInfo } from '../../src/api/tokens.js';
+import { getGasFees } from '../../src/api/tradeconfig.js';
+import { get } from '../../src/api/client.js';
+import { lookupToken } from '../../src/utils.js';
+import { swapCommand } from '../../src/commands/swap.js';
+import { confirm } from '@inquirer/prompts';
+
+const mockLoadCredentials = vi.mocked(loadCredentials);
+const mockSearchTokens = vi.mocked(searchTokens);
+const mockGetProjectInfo = vi.mocked(getProjectInfo);
+const mockGet = vi.mocked(get);
+const mockLookupToken = vi.mocked(lookupToken);
+const mockGetStockInfo = vi.mocked(getStockInfo);
+const mockConfirm = vi.mocked(confirm);
+const mockSwapParse = vi.mocked(swapCommand.parseAsync);
+
+const mockGetGasFees = vi.mocked(getGasFees);
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockLookupToken.mockResolvedValue({ symbol: 'BONK', name: 'Bonk', address: BONK, chain: 'solana' });
+  mockSearchTokens.mockResolvedValue({
+    success: true,
+    data: [{ symbol: 'BONK', address: BONK, chain: 'solana', price: 0.00002, volume24H: 1_500_000, socialUrls: { twitter: 'https://x.com/bonk_inu' } }],
+  });
+  mockGetProjectInfo.mockResolvedValue({
+    success: true,
+    data: { description: 'The dog coin of Solana.', marketCap: 1_200_000_000, fdv: 1_800_000_000, holders: 912345, website: 'https://bonkcoin.com' },
+  });
+});
+
+async function runDiscover(args: string[]): Promise<string> {
+  const { discoverCommand } = await import('../../src/commands/discover.js');
+  const output: string[] = [];
+  const logSpy = vi.spyOn(console, 'log').mockImplementation((...a) => { output.push(a.join(' ')); });
+  try {
+    await discoverCommand.parseAsync(args, { from: 'user' });
+  } finally {
+    logSpy.mockRestore();
+  }
+  return output.join('\n');
+}
+
+describe('discover token', () => {
+  it('should render a card merging project info, market data and the user position', async () => {
+    mockLoadCredentials.mockReturnValue({ accessToken: 'tok' });
+    mockGet.mockResolvedValue({
+      success: true,
+      data: [{ tokenSymbol: 'BONK', tokenAddress: BONK.toLowerCase(), chainId: 'solana', balance: '1000000', marketPrice: '0.00002', unrealizedPnl: 3.5 }],
+    });
+
+    const out = await runDiscover(['token', '$BONK']);
+
+    expect(mockLookupToken).toHaveBeenCalledWith('$BONK');
+    expect(mockGetProjectInfo).toHaveBeenCalledWith('BONK', BONK);
+    expect(mockGet).toHaveBeenCalledWith('/users/pnls/all', { token: 'tok' });
+    expect(out).toContain('The dog coin of Solana.');
+    expect(out).toMatch(/Market Cap\s+: \$1\.20B/);
+    expect(out).toMatch(/FDV\s+: \$1\.80B/);
+    expect(out).toMatch(/Volume 24h\s+: \$1\.50M/);
+    expect(out).toMatch(/Holders\s+: 912,345/);
+    expect(out).toContain('https://x.com/bonk_inu');
+    expect(out).toContain('https://bonkcoin.com');
+    expect(out).toMatch(/Balance\s+: 1,000,000 BONK/);
+    expect(out).toMatch(/Value\s+: \$20\.00/);
+  });
+
+  it('should skip the position lookup when logged out', async () => {
+    mockLoadCredentials.mockReturnValue(null);
+
+    const out = await runDiscover(['token', BONK]);
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(out).toContain('Log in to see your holdings');
+  });
+
+  it('should print the merged detail with --json', async () => {
+    mockLoadCredentials.mockReturnValue({ accessToken: 'tok' });
+    mockGet.mockResolvedValue({ success: true, data: [] });
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    let out: string;
+    try {
+      out = await runDiscover(['token', '$BONK']);
+    } finally {
+      setRawJson(false);
+    }
+
+    const parsed = JSON.parse(out);
+    expect(parsed).toMatchObject({ symbol: 'BONK', address: BONK, price: 0.00002, holders: 912345, position: null });
+    expect(parsed.socialUrls).toEqual({ twitter: 'https://x.com/bonk_inu', website: 'https://bonkcoin.com' });
+  });
+});
+
+describe('discover gas', () => {
+  beforeEach(() => {
+    vi.mocked(requireAuth).mockReturnValue({ accessToken: 'tok' });
+    mockGetGasFees.mockResolvedValue({
+      success: true,
+      data: [
+        { chain: 'ethereum', fee: '2.5' },
+        { chain: 'base', fee: '0.01' },
+        { chain: 'solana', fee: '0.0005' },
+      ],
+    });
+  });
+
+  it('should list every supported chain, cheapest first, with unreported chains as n/a', async () => {
+    const { SUPPORTED_CHAINS } = await import('../../src/types.js');
+
+    const out = await runDiscover(['gas']);
+
+    expect(mockGetGasFees).toHaveBeenCalledWith('tok');
+    expect(out).toContain('Gas Fees:');
+    const sol = out.indexOf('Solana');
+    const base = out.indexOf('Base');
+    const eth = out.indexOf('Ethereum');
+    const bsc = out.indexOf('BSC');
+    expect(sol).toBeGreaterThan(-1);
+    expect(sol).toBeLessThan(base);
+    expect(base).toBeLessThan(eth);
+    expect(eth).toBeLessThan(bsc);
+    expect(out.match(/n\/a/g)).toHaveLength(SUPPORTED_CHAINS.length - 3);
+  });
+
+  it('should print the merged rows with --json', async () => {
+    const { SUPPORTED_CHAINS } = await import('../../src/types.js');
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    let out: string;
+    try {
+      out = await runDiscover(['gas']);
+    } finally {
+      setRawJson(false);
+    }
+
+    const rows = JSON.parse(out) as Record<string, unknown>[];
+    expect(rows).toHaveLength(SUPPORTED_CHAINS.length);
+    expect(rows.slice(0, 3)).toEqual([
+      { chain: 'solana', fee: '0.0005' },
+      { chain: 'base', fee: '0.01' },
+      { chain: 'ethereum', fee: '2.5' },
+    ]);
+    expect(rows.slice(3).every((r) => r.fee === undefined)).toBe(true);
+    expect(new Set(rows.map((r) => r.chain))).toEqual(new Set(SUPPORTED_CHAINS));
+  });
+});
+
+describe('discover stock', () => {
+  const TSLAX = 'XsDoVfqeBukxuZHWhdvWHBhgEHjGNst4MLodqsJHzoB';
+  const stockInfo = {
+    symbol: 'TSLAx',
+    name: 'Tesla xStock',
+    address: TSLAX,
+    chain: 'solana',
+    sector: 'Consumer Cyclical',
+    peRatio: 180.5,
+    tradeData: { price: 412.3, price_change_24h_percent: 0.021, volume_24h_usd: 8_400_000, market: 1_320_000_000_000 },
+  };
+  const isTTY = process.stdin.isTTY;
+
+  beforeEach(() => {
+    mockGetStockInfo.mockResolvedValue({ success: true, data: stockInfo });
+    process.stdin.isTTY = true;
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY;
+  });
+
+  it('should render price, market cap, fundamentals and the token address', async () => {
+    mockConfirm.mockResolvedValue(false);
+
+    const out = await runDiscover(['stock', 'TSLA']);
+
+    expect(mockGetStockInfo).toHaveBeenCalledWith('TSLA');
+    expect(out).toContain('Tesla xStock');
+    expect(out).toMatch(/Price\s+: \$412\.30\s+\+2\.1% 24h/);
+    expect(out).toMatch(/Market Cap\s+: \$1320\.00B/);
+    expect(out).toMatch(/Sector\s+: Consumer Cyclical/);
+    expect(out).toMatch(/Pe Ratio\s+: 180\.5/);
+    expect(out).toContain(TSLAX);
+    expect(mockSwapParse).not.toHaveBeenCalled();
+  });
+
+  it('should hand off to the swap flow when the user chooses to buy', async () => {
+    mockConfirm.mockResolvedValue(true);
+
+    await runDiscover(['stock', '$TSLA']);
+
+    expect(mockGetStockInfo).toHaveBeenCalledWith('TSLA');
+    expect(mockSwapParse).toHaveBeenCalledWith(
+      ['--side', 'buy', '--token', TSLAX, '--chain', 'solana'],
+      { from: 'user' },
+    );
+  });
+
+  it('should not offer a swap when no token address is known', async () => {
+    mockGetStockInfo.mockResolvedValue({ success: true, data: { ...stockInfo, address: undefined } });
+
+    const out = await runDiscover(['stock', 'TSLA']);
+
+    expect(out).toContain('no on-chain token found');
+    expect(mockConfirm).not.toHaveBeenCalled();
+  });
+});
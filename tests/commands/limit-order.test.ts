@@ -0,0 +1,185 @@
+/**
+ * Integration tests for limit-order show / update.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/limitorder.js', () => ({
+  createLimitOrder: vi.fn(),
+  listLimitOrders: vi.fn(),
+  getLimitOrder: vi.fn(),
+  updateLimitOrder: vi.fn(),
+  cancelLimitOrder: vi.fn(),
+}));
+
+vi.mock('../../src/touchid.js', () => ({
+  requireTouchId: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@inquirer/prompts', () => ({
+  select: vi.fn(),
+  input: vi.fn(),
+  confirm: vi.fn(),
+  number: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+vi.mock('../../src/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils.js')>();
+  return { ...actual, requireTransactionConfirmation: vi.fn().mockResolvedValue(undefined) };
+});
+
+import { requireAuth } from '../../src/config.js';
+import * as loApi from '../../src/api/limitorder.js';
+import { requireTouchId } from '../../src/touchid.js';
+import { requireTransactionConfirmation } from '../../src/utils.js';
+import { select, input, number } from '@inquirer/prompts';
+
+const mockRequireAuth = vi.mocked(requireAuth);
+const mockGetLimitOrder = vi.mocked(loApi.getLimitOrder);
+const mockUpdateLimitOrder = vi.mocked(loApi.updateLimitOrder);
+const mockConfirmTx = vi.mocked(requireTransactionConfirmation);
+const mockTouchId = vi.mocked(requireTouchId);
+
+const ORDER = {
+  id: 'lo-123', chain: 'base', side: 'buy', amount: '100',
+  priceCondition: 'below', targetPrice: 2, targetTokenCA: '0xTOKEN',
+  outputTokenSymbol: 'FOO', status: 'active', expiredAt: 1_900_000_000,
+};
+
+function getCmd(name: string) {
+  return import('../../src/commands/limit-order.js').then((m) =>
+    m.limitOrderCommand.commands.find((c) => c.name() === name)!,
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockRequireAuth.mockReturnValue({ accessToken: 'lo-token' });
+  mockGetLimitOrder.mockResolvedValue({ success: true, data: ORDER });
+});
+
+describe('limit-order show', () => {
+  it('should fetch and print the order', async () => {
+    const cmd = await getCmd('show');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+
+    await cmd.parseAsync(['lo-123'], { from: 'user' });
+
+    expect(mockGetLimitOrder).toHaveBeenCalledWith('lo-token', 'lo-123');
+    const text = output.join('\n');
+    expect(text).toContain('price below $2');
+    expect(text).toContain('$FOO');
+    logSpy.mockRestore();
+  });
+});
+
+describe('limit-order update', () => {
+  it('should send only changed fields through the confirmation and Touch ID gates', async () => {
+    mockUpdateLimitOrder.mockResolvedValue({ success: true, data: { ...ORDER, targetPrice: 1.5 } });
+    const cmd = await getCmd('update');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['lo-123', '--price', '1.5', '--amount', '100', '--expiry', '2'], { from: 'user' });
+
+    expect(mockConfirmTx).toHaveBeenCalledTimes(1);
+    expect(mockTouchId).toHaveBeenCalledTimes(1);
+    const [, id, dto] = mockUpdateLimitOrder.mock.calls[0];
+    expect(id).toBe('lo-123');
+    expect(dto.targetPrice).toBe(1.5);
+    expect(dto.amount).toBeUndefined();
+    expect(dto.priceCondition).toBeUndefined();
+    expect(dto.expiredAt).toBeGreaterThan(Math.floor(Date.now() / 1000) + 7000);
+    logSpy.mockRestore();
+  });
+
+  it('should skip the confirmation with -y but still require Touch ID', async () => {
+    mockUpdateLimitOrder.mockResolvedValue({ success: true, data: ORDER });
+    const cmd = await getCmd('update');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['lo-123', '--condition', 'above', '-y'], { from: 'user' });
+
+    expect(mockConfirmTx).not.toHaveBeenCalled();
+    expect(mockTouchId).toHaveBeenCalledTimes(1);
+    expect(mockUpdateLimitOrder).toHaveBeenCalledWith('lo-token', 'lo-123', { priceCondition: 'above' });
+    logSpy.mockRestore();
+  });
+
+  it('should prompt with current values when no flags are given', async () => {
+    vi.mocked(select).mockResolvedValueOnce('below');
+    vi.mocked(number).mockResolvedValueOnce(2);
+    vi.mocked(input).mockResolvedValueOnce('250').mockResolvedValueOnce('');
+    mockUpdateLimitOrder.mockResolvedValue({ success: true, data: ORDER });
+    const cmd = await getCmd('update');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['lo-123'], { from: 'user' });
+
+    expect(mockUpdateLimitOrder).toHaveBeenCalledWith('lo-token', 'lo-123', { amount: '250' });
+    logSpy.mockRestore();
+  });
+
+  it('should reject invalid flags before fetching the order', async () => {
+    const cmd = await getCmd('update');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cmd.parseAsync(['lo-123', '--price', '-1'], { from: 'user' })).rejects.toThrow('exit');
+
+    expect(mockGetLimitOrder).not.toHaveBeenCalled();
+    expect(mockUpdateLimitOrder).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should not call the API when nothing changed', async () => {
+    const cmd = await getCmd('update');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['lo-123', '--price', '2'], { from: 'user' });
+
+    expect(mockTouchId).not.toHaveBeenCalled();
+    expect(mockUpdateLimitOrder).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it('should compare amounts numerically', async () => {
+    const cmd = await getCmd('update');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['lo-123', '--amount', '100.0', '--price', '2'], { from: 'user' });
+
+    expect(mockUpdateLimitOrder).not.toHaveBeenCalled();
+    expect(logSpy.mock.calls.flat().join('\n')).toContain('Nothing to update.');
+    logSpy.mockRestore();
+  });
+
+  it('should refuse to update an order that is no longer open', async () => {
+    mockGetLimitOrder.mockResolvedValue({ success: true, data: { ...ORDER, status: 'FILLED' } });
+    const cmd = await getCmd('update');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cmd.parseAsync(['lo-123', '--price', '1.5', '-y'], { from: 'user' })).rejects.toThrow('exit');
+
+    expect(errorSpy.mock.calls.flat().join(' ')).toContain('Limit order lo-123 is filled and can no longer be updated.');
+    expect(mockTouchId).not.toHaveBeenCalled();
+    expect(mockUpdateLimitOrder).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
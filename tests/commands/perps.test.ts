@@ -44,6 +44,7 @@ vi.mock('../../src/api/perps.js', () => ({
   priceAnalysis: vi.fn(),
   getSubAccountRecords: vi.fn(),
   getSubAccountFills: vi.fn(),
+  getPortfolioHistory: vi.fn(),
   getSubAccountOpenOrders: vi.fn(),
   getCompletedTrades: vi.fn(),
   getTokenPrices: vi.fn(),
@@ -767,3 +768,288 @@ describe('perps leverage command', () => {
     logSpy.mockRestore();
   });
 });
+
+describe('perps performance command', () => {
+  const mockGetEquityHistory = vi.mocked(perpsApi.getEquityHistory);
+  const mockGetCompletedTrades = vi.mocked(perpsApi.getCompletedTrades);
+  const mockGetSubAccountFills = vi.mocked(perpsApi.getSubAccountFills);
+  const mockGetPortfolioHistory = vi.mocked(perpsApi.getPortfolioHistory);
+  const T0 = Date.UTC(2024, 0, 1);
+  const DAY = 86_400_000;
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockListSubAccounts.mockResolvedValue({
+      success: true, data: [WALLET_DEFAULT, WALLET_SUB1] as never,
+    });
+    mockGetEquityHistory.mockResolvedValue({
+      success: true,
+      data: {
+        'w-default': [[T0, 5000], [T0 + DAY, 5000]],
+      },
+    });
+    mockGetPortfolioHistory.mockResolvedValue([[T0, 1000], [T0 + DAY, 1100], [T0 + DAY * 2, 880], [T0 + DAY * 3, 990]]);
+    mockGetCompletedTrades.mockResolvedValue({
+      success: true,
+      data: [
+        { subAccountId: 'w-sub1', coin: 'BTC', closedPnl: '100' },
+        { subAccountId: 'w-sub1', coin: 'ETH', closedPnl: '-50' },
+        { subAccountId: 'w-sub1', coin: 'SOL', closedPnl: '200' },
+        { subAccountId: 'w-sub1', coin: 'SOL', closedPnl: '-50' },
+        { subAccountId: 'w-default', coin: 'BTC', closedPnl: '999' },
+      ],
+    });
+    mockGetSubAccountFills.mockResolvedValue({
+      success: true,
+      data: [
+        { coin: 'BTC', side: 'B', sz: '1', startPosition: '0', closedPnl: '0', time: T0 },
+        { coin: 'BTC', side: 'A', sz: '1', startPosition: '1', closedPnl: '100', time: T0 + 1 },
+        // One short closed in two fills is one trade
+        { coin: 'ETH', side: 'A', sz: '1', startPosition: '0', closedPnl: '0', time: T0 + 2 },
+        { coin: 'ETH', side: 'B', sz: '0.5', startPosition: '-1', closedPnl: '-20', time: T0 + 3 },
+        { coin: 'ETH', side: 'B', sz: '0.5', startPosition: '-0.5', closedPnl: '-30', time: T0 + 4 },
+        { coin: 'SOL', side: 'B', sz: '2', startPosition: '0', closedPnl: '0', time: T0 + 5 },
+        { coin: 'SOL', side: 'A', sz: '2', startPosition: '2', closedPnl: '200', time: T0 + 6 },
+        { coin: 'SOL', side: 'B', sz: '1', startPosition: '0', closedPnl: '0', time: T0 + 7 },
+        { coin: 'SOL', side: 'A', sz: '1', startPosition: '1', closedPnl: '-50', time: T0 + 8 },
+        // Partly closed, still open: not a completed trade
+        { coin: 'DOGE', side: 'B', sz: '2', startPosition: '0', closedPnl: '0', time: T0 + 9 },
+        { coin: 'DOGE', side: 'A', sz: '1', startPosition: '2', closedPnl: '10', time: T0 + 10 },
+      ],
+    });
+  });
+
+  it('should compute metrics scoped to the --wallet sub-account', async () => {
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    const cmd = await getCmd('performance');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['-w', 'Bot-1'], { from: 'user' });
+
+    const out = JSON.parse(logSpy.mock.calls[0][0] as string);
+    expect(out.wallet).toBe('Bot-1');
+    expect(out.metrics).toMatchObject({
+      trades: 4,
+      wins: 2,
+      losses: 2,
+      winRate: 50,
+      avgWin: 150,
+      avgLoss: -50,
+      profitFactor: 3,
+      netPnl: 200,
+      maxDrawdown: 220,
+      maxDrawdownPercent: 20,
+      startEquity: 1000,
+      endEquity: 990,
+    });
+    expect(typeof out.metrics.sharpe).toBe('number');
+    expect(out.equity).toHaveLength(4);
+    expect(mockGetSubAccountFills).toHaveBeenCalledWith('test-token', 'w-sub1', 0);
+    expect(mockGetPortfolioHistory).toHaveBeenCalledWith('0xBBB');
+    expect(mockGetCompletedTrades).not.toHaveBeenCalled();
+
+    logSpy.mockRestore();
+    setRawJson(false);
+  });
+
+  it('should omit equity metrics with a note when sub-account history is unavailable', async () => {
+    mockGetPortfolioHistory.mockResolvedValue([]);
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    const cmd = await getCmd('performance');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['-w', 'Bot-1'], { from: 'user' });
+
+    const out = JSON.parse(logSpy.mock.calls[0][0] as string);
+    expect(out.note).toContain('Equity history is unavailable');
+    expect(out.equity).toEqual([]);
+    expect(out.metrics).toMatchObject({
+      trades: 4, netPnl: 200, sharpe: null, maxDrawdown: null, maxDrawdownPercent: null, startEquity: null,
+    });
+    setRawJson(false);
+
+    logSpy.mockClear();
+    await (await getCmd('performance')).parseAsync(['-w', 'Bot-1'], { from: 'user' });
+    const text = logSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+    expect(text).toContain('Sharpe, max drawdown and the equity chart are omitted');
+    expect(text).not.toContain('Sharpe (ann.)');
+    expect(text).not.toContain('Max Drawdown');
+
+    logSpy.mockRestore();
+  });
+
+  it('should render the equity chart and stats for a wallet', async () => {
+    const cmd = await getCmd('performance');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => {
+      output.push(args.join(' '));
+    });
+
+    await cmd.parseAsync(['-w', 'Main'], { from: 'user' });
+
+    const text = output.join('\n');
+    expect(text).toContain('Perps Performance');
+    expect(text).toContain('Main');
+    expect(text).toContain('Closed Trades  : 1');
+    expect(text).toContain('Profit Factor');
+    expect(text).toContain('█');
+
+    logSpy.mockRestore();
+  });
+});
+
+describe('perps modify command', () => {
+  const mockGetOpenOrders = vi.mocked(perpsApi.getOpenOrders);
+  const mockGetSubAccountOpenOrders = vi.mocked(perpsApi.getSubAccountOpenOrders);
+  const mockGetPerpsAddress = vi.mocked(perpsApi.getPerpsAddress);
+  const mockModifyOrders = vi.mocked(perpsApi.modifyOrders);
+  const ORDERS = [
+    { coin: 'BTC', limitPx: '60000', oid: 111, side: 'B', sz: '0.01', timestamp: 0, orderType: 'Limit', tif: 'Gtc' },
+    { coin: 'ETH', limitPx: '3500', oid: 222, side: 'A', sz: '1', timestamp: 0, orderType: 'Limit', tif: 'Alo' },
+    {
+      coin: 'BTC', limitPx: '54000', oid: 333, side: 'A', sz: '0.01', timestamp: 0,
+      orderType: 'Stop Market', tif: null, isTrigger: true, triggerPx: '60000', reduceOnly: true,
+    },
+  ];
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockGetStrategies.mockResolvedValue({ success: true, data: [] as never });
+    mockGetPerpsAddress.mockResolvedValue('0xAAA');
+    mockGetOpenOrders.mockResolvedValue(ORDERS);
+    mockModifyOrders.mockResolvedValue({ success: true, data: { status: 'ok' } });
+  });
+
+  it('should amend price by --oid on the default wallet with a typed modify payload', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT] as never });
+    const cmd = await getCmd('modify');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['--oid', '222', '--price', '3600', '-y'], { from: 'user' });
+
+    expect(mockModifyOrders).toHaveBeenCalledWith('test-token', {
+      modifies: [{
+        oid: 222,
+        order: { a: 'ETH', b: false, p: '3600', s: '1', r: false, t: { limit: { tif: 'Alo' } } },
+      }],
+      subAccountId: undefined,
+    });
+    logSpy.mockRestore();
+  });
+
+  it('should pick an order and prompt for price and size on a sub-wallet', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT, WALLET_SUB1] as never });
+    mockGetOpenOrders.mockResolvedValue([ORDERS[0]]);
+    mockSelect.mockResolvedValueOnce(ORDERS[0] as never);
+    mockInput.mockResolvedValueOnce('59000').mockResolvedValueOnce('0.02');
+    const cmd = await getCmd('modify');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['-w', 'Bot-1', '-y'], { from: 'user' });
+
+    expect(mockGetOpenOrders).toHaveBeenCalledWith('0xBBB');
+    expect(mockModifyOrders).toHaveBeenCalledWith('test-token', {
+      modifies: [{
+        oid: 111,
+        order: { a: 'BTC', b: true, p: '59000', s: '0.02', r: false, t: { limit: { tif: 'Gtc' } } },
+      }],
+      subAccountId: 'w-sub1',
+    });
+    logSpy.mockRestore();
+  });
+
+  it('should modify a sub-wallet trigger order fetched by its address', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT, WALLET_SUB1] as never });
+    // The platform endpoint omits order type / TIF, so it must not be the source
+    mockGetSubAccountOpenOrders.mockResolvedValue({
+      success: true, data: [{ coin: 'BTC', limitPx: '54000', oid: 333, side: 'A', sz: '0.01' }],
+    });
+    const cmd = await getCmd('modify');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['-w', 'Bot-1', '--oid', '333', '--price', '58000', '-y'], { from: 'user' });
+
+    expect(mockGetOpenOrders).toHaveBeenCalledWith('0xBBB');
+    expect(mockGetSubAccountOpenOrders).not.toHaveBeenCalled();
+    expect(mockModifyOrders).toHaveBeenCalledWith('test-token', {
+      modifies: [{
+        oid: 333,
+        order: {
+          a: 'BTC', b: false, p: '52200', s: '0.01', r: true,
+          t: { trigger: { triggerPx: '58000', tpsl: 'sl', isMarket: true } },
+        },
+      }],
+      subAccountId: 'w-sub1',
+    });
+    logSpy.mockRestore();
+  });
+
+  it('should keep a stop-loss a trigger order and move its trigger price', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT] as never });
+    const cmd = await getCmd('modify');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['--oid', '333', '--price', '58000', '-y'], { from: 'user' });
+
+    expect(mockModifyOrders).toHaveBeenCalledWith('test-token', {
+      modifies: [{
+        oid: 333,
+        order: {
+          a: 'BTC', b: false, p: '52200', s: '0.01', r: true,
+          t: { trigger: { triggerPx: '58000', tpsl: 'sl', isMarket: true } },
+        },
+      }],
+      subAccountId: undefined,
+    });
+    logSpy.mockRestore();
+  });
+
+  it('should refuse to modify an order whose type is unknown', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT] as never });
+    mockGetOpenOrders.mockResolvedValue([{ coin: 'BTC', limitPx: '60000', oid: 444, side: 'B', sz: '0.01', timestamp: 0 }]);
+    const cmd = await getCmd('modify');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cmd.parseAsync(['--oid', '444', '--price', '61000', '-y'], { from: 'user' })).rejects.toThrow('exit');
+
+    expect(errorSpy.mock.calls.flat().join(' ')).toContain("can't be modified safely");
+    expect(mockModifyOrders).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should refuse while autopilot is active on the wallet', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT] as never });
+    mockGetStrategies.mockResolvedValue({
+      success: true, data: [
+        { _id: 'strat1', name: 'Alpha', status: 'enabled', symbols: ['BTC'], subAccountId: 'w-default' },
+      ] as never,
+    });
+    const cmd = await getCmd('modify');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+
+    await cmd.parseAsync(['--oid', '111', '--price', '61000', '-y'], { from: 'user' });
+
+    expect(output.join('\n')).toContain('Manual order modification is disabled');
+    expect(mockGetOpenOrders).not.toHaveBeenCalled();
+    expect(mockModifyOrders).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it('should not submit when price and size are unchanged', async () => {
+    mockListSubAccounts.mockResolvedValue({ success: true, data: [WALLET_DEFAULT] as never });
+    const cmd = await getCmd('modify');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await cmd.parseAsync(['--oid', '111', '--price', '60000'], { from: 'user' });
+
+    expect(mockModifyOrders).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+});
@@ -18,6 +18,12 @@ vi.mock('../../src/api/crosschain.js', () => ({
   swapsSimulate: vi.fn(),
 }));
 
+vi.mock('../../src/api/tradeconfig.js', () => ({
+  getTradeConfig: vi.fn(),
+  upsertTradeConfig: vi.fn().mockResolvedValue({ success: true, data: {} }),
+  deleteTradeConfig: vi.fn().mockResolvedValue({ success: true }),
+}));
+
 vi.mock('../../src/api/client.js', () => ({
   get: vi.fn().mockResolvedValue({ success: true, data: [] }),
   post: vi.fn().mockResolvedValue({ success: true, data: {} }),
@@ -46,7 +52,8 @@ vi.mock('../../src/utils.js', async (importOriginal) => {
 });
 
 import { requireAuth } from '../../src/config.js';
-import { swaps } from '../../src/api/crosschain.js';
+import { swaps, swapsSimulate } from '../../src/api/crosschain.js';
+import { getTradeConfig, upsertTradeConfig, deleteTradeConfig } from '../../src/api/tradeconfig.js';
 import { select, input } from '@inquirer/prompts';
 import { lookupToken, requireTransactionConfirmation } from '../../src/utils.js';
 
@@ -56,9 +63,13 @@ const mockSelect = vi.mocked(select);
 const mockInput = vi.mocked(input);
 const mockLookupToken = vi.mocked(lookupToken);
 const mockTxConfirm = vi.mocked(requireTransactionConfirmation);
+const mockGetTradeConfig = vi.mocked(getTradeConfig);
+const mockUpsertTradeConfig = vi.mocked(upsertTradeConfig);
+const mockDeleteTradeConfig = vi.mocked(deleteTradeConfig);
 
 beforeEach(() => {
   vi.clearAllMocks();
+  vi.resetModules();
   mockRequireAuth.mockReturnValue({ accessToken: 'swap-token' });
   mockTxConfirm.mockResolvedValue(undefined);
 });
@@ -126,4 +137,137 @@ describe('swap command', () => {
 
     logSpy.mockRestore();
   });
+
+  it('should apply per-swap overrides and restore the previous trade config', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    mockGetTradeConfig.mockResolvedValueOnce({ success: true, data: { slippage: '1', mode: 'FAST' } });
+    mockSwaps.mockResolvedValue({ success: true, data: [{ txId: 'tx3' }] });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await swapCommand.parseAsync(
+      ['-s', 'buy', '-t', '0xABC', '-a', '10', '--slippage', '30bps', '--anti-mev'],
+      { from: 'user' },
+    );
+
+    expect(mockUpsertTradeConfig).toHaveBeenNthCalledWith(1, 'swap-token', { slippage: '0.3', mode: 'ANTI_MEV' });
+    expect(mockUpsertTradeConfig).toHaveBeenNthCalledWith(2, 'swap-token', { slippage: '1', mode: 'FAST' });
+    expect(mockSwaps).toHaveBeenCalledOnce();
+    expect(mockTxConfirm.mock.calls[0][2]).toMatchObject({ settings: 'slippage 0.3% · anti-MEV' });
+
+    logSpy.mockRestore();
+  });
+
+  it('should print overrides even with --yes', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    mockGetTradeConfig.mockResolvedValueOnce({ success: true, data: {} });
+    mockSwaps.mockResolvedValue({ success: true, data: [{ txId: 'tx5' }] });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await swapCommand.parseAsync(['-s', 'buy', '-t', '0xABC', '-a', '10', '--slippage', '2%', '-y'], { from: 'user' });
+
+    const out = logSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+    expect(mockTxConfirm).not.toHaveBeenCalled();
+    expect(out).toContain('Overrides for this swap: slippage 2%');
+    expect(out).toContain('changed for this swap and restored');
+
+    logSpy.mockRestore();
+  });
+
+  it('should not change the trade config for a dry run', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    vi.mocked(swapsSimulate).mockResolvedValue({ success: true, data: [] });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await swapCommand.parseAsync(['-s', 'buy', '-t', '0xABC', '-a', '10', '--anti-mev', '--dry-run'], { from: 'user' });
+
+    expect(swapsSimulate).toHaveBeenCalledOnce();
+    expect(mockGetTradeConfig).not.toHaveBeenCalled();
+    expect(mockUpsertTradeConfig).not.toHaveBeenCalled();
+    expect(mockDeleteTradeConfig).not.toHaveBeenCalled();
+
+    logSpy.mockRestore();
+  });
+
+  it('should restore the trade config when interrupted mid-swap', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    mockGetTradeConfig.mockResolvedValueOnce({ success: true, data: { slippage: '1' } });
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    const sigtermListeners = process.listenerCount('SIGTERM');
+    mockSwaps.mockImplementation(async () => {
+      process.emit('SIGINT', 'SIGINT');
+      await vi.waitFor(() => expect(exitSpy).toHaveBeenCalledWith(130));
+      return { success: true, data: [{ txId: 'tx6' }] };
+    });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await swapCommand.parseAsync(['-s', 'buy', '-t', '0xABC', '-a', '10', '--fast', '-y'], { from: 'user' });
+
+    // Restored once on the signal, not again on the way out
+    expect(mockUpsertTradeConfig).toHaveBeenCalledTimes(2);
+    expect(mockUpsertTradeConfig).toHaveBeenLastCalledWith('swap-token', { slippage: '1' });
+    expect(process.listenerCount('SIGTERM')).toBe(sigtermListeners);
+
+    logSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should delete the temporary config when none existed before', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    mockGetTradeConfig.mockResolvedValueOnce({ success: true, data: {} });
+    mockSwaps.mockResolvedValue({ success: false, error: { code: 500, message: 'boom' } });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+
+    await expect(swapCommand.parseAsync(
+      ['-s', 'buy', '-t', '0xABC', '-a', '10', '--fast'],
+      { from: 'user' },
+    )).rejects.toThrow('exit');
+
+    expect(mockUpsertTradeConfig).toHaveBeenCalledWith('swap-token', { mode: 'FAST' });
+    expect(mockDeleteTradeConfig).toHaveBeenCalledWith('swap-token');
+
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should not touch trade config when no overrides are given', async () => {
+    mockLookupToken.mockResolvedValueOnce({
+      symbol: 'BONK', name: 'Bonk', address: '0xABC', chain: 'sol',
+    });
+    mockSwaps.mockResolvedValue({ success: true, data: [{ txId: 'tx4' }] });
+
+    const { swapCommand } = await import('../../src/commands/swap.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await swapCommand.parseAsync(['-s', 'buy', '-t', '0xABC', '-a', '10'], { from: 'user' });
+
+    expect(mockGetTradeConfig).not.toHaveBeenCalled();
+    expect(mockUpsertTradeConfig).not.toHaveBeenCalled();
+
+    logSpy.mockRestore();
+  });
 });
@@ -0,0 +1,133 @@
+/**
+ * Integration tests for the trade-config command (show / set / reset).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/tradeconfig.js', () => ({
+  getTradeConfig: vi.fn(),
+  upsertTradeConfig: vi.fn(),
+  deleteTradeConfig: vi.fn(),
+}));
+
+vi.mock('@inquirer/prompts', () => ({
+  select: vi.fn(),
+  input: vi.fn(),
+  confirm: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+import { requireAuth } from '../../src/config.js';
+import { getTradeConfig, upsertTradeConfig, deleteTradeConfig } from '../../src/api/tradeconfig.js';
+import { input, select, confirm } from '@inquirer/prompts';
+
+const mockRequireAuth = vi.mocked(requireAuth);
+const mockGetTradeConfig = vi.mocked(getTradeConfig);
+const mockUpsertTradeConfig = vi.mocked(upsertTradeConfig);
+const mockDeleteTradeConfig = vi.mocked(deleteTradeConfig);
+const mockInput = vi.mocked(input);
+const mockSelect = vi.mocked(select);
+const mockConfirm = vi.mocked(confirm);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockRequireAuth.mockReturnValue({ accessToken: 'tc-token' });
+  mockGetTradeConfig.mockResolvedValue({
+    success: true,
+    data: { slippage: '1', priorityFee: '0', tip: '0', mode: 'FAST' },
+  });
+  mockUpsertTradeConfig.mockImplementation(async (_t, config) => ({ success: true, data: config }));
+});
+
+describe('trade-config command', () => {
+  it('show should fetch and print the current config', async () => {
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    const output: string[] = [];
+    const logSpy = vi.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+
+    await tradeConfigCommand.parseAsync(['show'], { from: 'user' });
+
+    expect(mockGetTradeConfig).toHaveBeenCalledWith('tc-token');
+    expect(output.join('\n')).toContain('1%');
+    logSpy.mockRestore();
+  });
+
+  it('set should merge flags into the current config and upsert', async () => {
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await tradeConfigCommand.parseAsync(['set', '--slippage', '50bps', '--mode', 'anti-mev', '-y'], { from: 'user' });
+
+    expect(mockUpsertTradeConfig).toHaveBeenCalledWith('tc-token', {
+      slippage: '0.5', priorityFee: '0', tip: '0', mode: 'ANTI_MEV',
+    });
+    expect(mockInput).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it('set should prompt for every field when no flags are given', async () => {
+    mockInput
+      .mockResolvedValueOnce('0.3')
+      .mockResolvedValueOnce('0.0001')
+      .mockResolvedValueOnce('0.002');
+    mockSelect.mockResolvedValueOnce('ANTI_MEV');
+    mockConfirm.mockResolvedValueOnce(true);
+
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await tradeConfigCommand.parseAsync(['set'], { from: 'user' });
+
+    expect(mockUpsertTradeConfig).toHaveBeenCalledWith('tc-token', {
+      slippage: '0.3', priorityFee: '0.0001', tip: '0.002', mode: 'ANTI_MEV',
+    });
+    logSpy.mockRestore();
+  });
+
+  it('set should reject invalid flags before calling the API', async () => {
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('exit');
+    }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      tradeConfigCommand.parseAsync(['set', '--slippage', '80'], { from: 'user' }),
+    ).rejects.toThrow('exit');
+
+    expect(mockGetTradeConfig).not.toHaveBeenCalled();
+    expect(mockUpsertTradeConfig).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('reset should delete the config after confirmation', async () => {
+    mockConfirm.mockResolvedValueOnce(true);
+    mockDeleteTradeConfig.mockResolvedValueOnce({ success: true });
+
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await tradeConfigCommand.parseAsync(['reset'], { from: 'user' });
+
+    expect(mockDeleteTradeConfig).toHaveBeenCalledWith('tc-token');
+    logSpy.mockRestore();
+  });
+
+  it('reset should do nothing when not confirmed', async () => {
+    mockConfirm.mockResolvedValueOnce(false);
+
+    const { tradeConfigCommand } = await import('../../src/commands/trade-config.js');
+    await tradeConfigCommand.parseAsync(['reset'], { from: 'user' });
+
+    expect(mockDeleteTradeConfig).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Integration tests for the watchlist command.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/config.js', () => ({
+  requireAuth: vi.fn(),
+  loadConfig: () => ({ baseUrl: 'https://api.minara.ai' }),
+}));
+
+vi.mock('../../src/api/auth.js', () => ({
+  getFavoriteTokens: vi.fn(),
+  addFavoriteTokens: vi.fn(),
+}));
+
+vi.mock('../../src/api/tokens.js', () => ({
+  searchTokens: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+vi.mock('@inquirer/prompts', () => ({
+  select: vi.fn(),
+}));
+
+vi.mock('../../src/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils.js')>();
+  return { ...actual, lookupToken: vi.fn() };
+});
+
+import { requireAuth } from '../../src/config.js';
+import { getFavoriteTokens, addFavoriteTokens } from '../../src/api/auth.js';
+import { searchTokens } from '../../src/api/tokens.js';
+import { lookupToken } from '../../src/utils.js';
+
+const mockRequireAuth = vi.mocked(requireAuth);
+const mockGetFavorites = vi.mocked(getFavoriteTokens);
+const mockAddFavorites = vi.mocked(addFavoriteTokens);
+const mockSearchTokens = vi.mocked(searchTokens);
+const mockLookupToken = vi.mocked(lookupToken);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+  mockRequireAuth.mockReturnValue({ accessToken: 'wl-token' });
+});
+
+describe('watchlist add', () => {
+  it('should resolve tokens and save the merged list without duplicates', async () => {
+    mockGetFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA'] } });
+    mockLookupToken
+      .mockResolvedValueOnce({ symbol: 'AAA', address: '0xaaa', chain: 'base' })
+      .mockResolvedValueOnce({ symbol: 'BONK', address: 'BonkMint', chain: 'solana' });
+    mockAddFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA', 'BonkMint'] } });
+
+    const { watchlistCommand } = await import('../../src/commands/watchlist.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await watchlistCommand.parseAsync(['add', '$AAA', '$BONK'], { from: 'user' });
+
+    expect(mockAddFavorites).toHaveBeenCalledWith('wl-token', { tokens: ['0xAAA', 'BonkMint'] });
+    logSpy.mockRestore();
+  });
+});
+
+describe('watchlist remove', () => {
+  it('should match a ticker against the quoted favorites and save the rest', async () => {
+    mockGetFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA', 'BonkMint'] } });
+    mockSearchTokens.mockImplementation(async (id) => ({
+      success: true,
+      data: [{ symbol: id === 'BonkMint' ? 'BONK' : 'AAA', address: id }],
+    }));
+    mockAddFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA'] } });
+
+    const { watchlistCommand } = await import('../../src/commands/watchlist.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await watchlistCommand.parseAsync(['remove', '$bonk'], { from: 'user' });
+
+    expect(mockAddFavorites).toHaveBeenCalledWith('wl-token', { tokens: ['0xAAA'] });
+    expect(logSpy.mock.calls.flat().join(' ')).toContain('Removed $BONK');
+    logSpy.mockRestore();
+  });
+
+  it('should fail if the server keeps the removed token', async () => {
+    mockGetFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA'] } });
+    mockSearchTokens.mockResolvedValue({ success: true, data: [{ symbol: 'AAA', address: '0xAAA' }] });
+    mockAddFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA'] } });
+
+    const { watchlistCommand } = await import('../../src/commands/watchlist.js');
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('exit'); }) as never);
+
+    await expect(watchlistCommand.parseAsync(['remove', '0xaaa'], { from: 'user' })).rejects.toThrow('exit');
+    expect(errSpy.mock.calls.flat().join(' ')).toContain('web app');
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+});
+
+describe('watchlist list', () => {
+  it('should print quotes for each favorite as JSON', async () => {
+    mockGetFavorites.mockResolvedValueOnce({ success: true, data: { tokens: ['0xAAA', '0xUNKNOWN000000000'] } });
+    mockSearchTokens
+      .mockResolvedValueOnce({ success: true, data: [{ symbol: 'AAA', address: '0xaaa', price: 1.5, priceChange24H: 3 }] })
+      .mockResolvedValueOnce({ success: true, data: [] });
+
+    const { watchlistCommand } = await import('../../src/commands/watchlist.js');
+    const { setRawJson } = await import('../../src/formatters.js');
+    setRawJson(true);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await watchlistCommand.parseAsync(['list'], { from: 'user' });
+
+    const rows = JSON.parse(logSpy.mock.calls[0][0]);
+    expect(rows[0]).toMatchObject({ symbol: 'AAA', price: 1.5 });
+    expect(rows[1]).toMatchObject({ symbol: '0xUNKN…0000', address: '0xUNKNOWN000000000' });
+
+    setRawJson(false);
+    logSpy.mockRestore();
+  });
+});
@@ -30,10 +30,13 @@ import {
   printKV,
   printTable,
   printTxResult,
+  formatCsv,
   POSITION_COLUMNS,
   FILL_COLUMNS,
   SPOT_COLUMNS,
   TRADE_COLUMNS,
+  GAS_FEE_COLUMNS,
+  ACTIVITY_COLUMNS,
 } from '../../src/formatters.js';
 
 beforeEach(() => {
@@ -360,6 +363,22 @@ describe('printTxResult', () => {
   });
 });
 
+describe('formatCsv', () => {
+  it('should emit a header from the union of keys', () => {
+    const csv = formatCsv([{ a: 1, b: 'x' }, { b: 'y', c: true }]);
+    expect(csv).toBe('a,b,c\n1,x,\n,y,true\n');
+  });
+
+  it('should quote cells containing commas, quotes or newlines', () => {
+    const csv = formatCsv([{ note: 'a,b', q: 'say "hi"', nl: 'l1\nl2' }]);
+    expect(csv).toBe('note,q,nl\n"a,b","say ""hi""","l1\nl2"\n');
+  });
+
+  it('should JSON-encode nested values', () => {
+    expect(formatCsv([{ tags: ['swap', 'buy'] }])).toBe('tags\n"[""swap"",""buy""]"\n');
+  });
+});
+
 describe('Column definitions', () => {
   it('POSITION_COLUMNS has expected keys', () => {
     const keys = POSITION_COLUMNS.map((c) => c.key);
@@ -405,4 +424,19 @@ describe('Column definitions', () => {
     expect(keys).toContain('duration');
     expect(keys).toContain('close_time');
   });
+
+  it('GAS_FEE_COLUMNS formats chain names and missing fees', () => {
+    const [chainCol, feeCol] = GAS_FEE_COLUMNS;
+    expect(chainCol.format!('base', {})).toBe('Base');
+    expect(chainCol.format!('bsc', {})).toBe('BSC');
+    expect(feeCol.format!('0.0012', {})).toBe('0.0012');
+    expect(feeCol.format!(undefined, {})).toBe('n/a');
+  });
+
+  it('ACTIVITY_COLUMNS falls back to alternate field names', () => {
+    const token = ACTIVITY_COLUMNS.find((c) => c.key === 'tokenSymbol')!;
+    expect(token.format!(undefined, { symbol: 'BONK' })).toBe('BONK');
+    const type = ACTIVITY_COLUMNS.find((c) => c.key === 'type')!;
+    expect(type.format!(undefined, { tags: ['swap', 'buy'] })).toBe('swap, buy');
+  });
 });
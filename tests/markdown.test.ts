@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the streaming markdown renderer.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+// Tag styles instead of emitting ANSI codes: chalk.bold('x') → '<bold>x</>'
+vi.mock('chalk', () => {
+  const make = (styles: string[]): unknown => new Proxy((s: string) => s, {
+    get: (_t, prop) => make([...styles, String(prop)]),
+    apply: (_t, _this, args) => `<${styles.join('.')}>${args[0]}</>`,
+  });
+  return { default: make([]) };
+});
+
+import { renderInline, createMarkdownStream } from '../src/markdown.js';
+
+function render(chunks: string[]): string {
+  let out = '';
+  const md = createMarkdownStream((s) => { out += s; });
+  for (const c of chunks) md.push(c);
+  md.end();
+  return out;
+}
+
+describe('renderInline', () => {
+  it('should format bold, italic, code and links', () => {
+    expect(renderInline('**BTC** is *up*')).toBe('<bold>BTC</> is <italic>up</>');
+    expect(renderInline('run `minara **ask**`')).toBe('run <cyan>minara **ask**</>');
+    expect(renderInline('[docs](https://x.io)')).toBe('<underline>docs</> <dim>(https://x.io)</>');
+    expect(renderInline('snake_case_name and 2*3*4')).toBe('snake_case_name and 2*3*4');
+  });
+});
+
+describe('createMarkdownStream', () => {
+  it('should render headings and lists once each line completes', () => {
+    expect(render(['# Sum', 'mary\n- one\n', '2. two\n'])).toBe(
+      '<bold.underline>Summary</>\n<cyan>•</> one\n<cyan>2.</> two\n',
+    );
+  });
+
+  it('should handle markers split across chunks', () => {
+    expect(render(['Price is **12', '3** today'])).toBe('Price is <bold>123</> today');
+  });
+
+  it('should leave code block contents unformatted', () => {
+    const out = render(['```ts\nconst a = **b**;\n```\nafter\n']);
+    expect(out).toContain('<dim>┌ ts</>\n');
+    expect(out).toContain('<cyan>const a = **b**;</>');
+    expect(out).toContain('<dim>└</>\nafter\n');
+  });
+
+  it('should close a code block left open at the end of the stream', () => {
+    expect(render(['Run:\n```sh\nnpm i\nnpm test'])).toBe(
+      'Run:\n<dim>┌ sh</>\n<dim>│ </><cyan>npm i</>\n<dim>│ </><cyan>npm test</>\n<dim>└</>\n',
+    );
+    expect(render(['```\nx\n```'])).toBe('<dim>┌</>\n<dim>│ </><cyan>x</>\n<dim>└</>\n');
+  });
+
+  it('should keep a code block open across mid-stream flushes', () => {
+    let out = '';
+    const md = createMarkdownStream((s) => { out += s; });
+    md.push('```\na\n');
+    md.flush();
+    md.push('b\n```\n');
+    md.end();
+    expect(out).toBe('<dim>┌</>\n<dim>│ </><cyan>a</>\n<dim>│ </><cyan>b</>\n<dim>└</>\n');
+  });
+
+  it('should buffer pipe tables and print them aligned', () => {
+    const out = render(['| Token | Price |\n|---|---|\n', '| BTC | 1 |\n| ETH | 2 |\nDone\n']);
+    expect(out).not.toContain('|---|');
+    expect(out).toMatch(/Token.*Price/);
+    expect(out).toMatch(/BTC.*1/);
+    expect(out.trimEnd().endsWith('Done')).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for transaction status polling (tx status / --wait).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/api/crosschain.js', () => ({
+  getStatuses: vi.fn(),
+}));
+
+vi.mock('ora', () => ({
+  default: () => ({ start: () => ({ stop: () => {}, text: '' }) }),
+}));
+
+import { getStatuses } from '../src/api/crosschain.js';
+import {
+  classifyStatus, extractTransactionIds, waitForTransactions, reportStatuses, waitAndExit,
+  printsWaitResult, parseWaitSeconds, TX_EXIT_CODES,
+} from '../src/tx-status.js';
+
+const mockGetStatuses = vi.mocked(getStatuses);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('classifyStatus', () => {
+  it('should classify terminal and pending states', () => {
+    expect(classifyStatus('SUCCESS')).toBe('success');
+    expect(classifyStatus('confirmed')).toBe('success');
+    expect(classifyStatus('FAILED')).toBe('failed');
+    expect(classifyStatus('reverted')).toBe('failed');
+    expect(classifyStatus('PENDING')).toBe('pending');
+    expect(classifyStatus(undefined)).toBe('pending');
+  });
+});
+
+describe('extractTransactionIds', () => {
+  it('should read ids from single and array responses', () => {
+    expect(extractTransactionIds({ transactionId: 'tx1' })).toEqual(['tx1']);
+    expect(extractTransactionIds([{ transactionId: 'a' }, { id: 'b' }, { foo: 1 }])).toEqual(['a', 'b']);
+    expect(extractTransactionIds(null)).toEqual([]);
+  });
+});
+
+describe('parseWaitSeconds', () => {
+  it('should accept positive numbers and reject others', () => {
+    expect(parseWaitSeconds('30')).toBe(30);
+    expect(() => parseWaitSeconds('0')).toThrow('--wait');
+    expect(() => parseWaitSeconds('abc')).toThrow('--wait');
+  });
+});
+
+describe('waitForTransactions', () => {
+  it('should poll until every transaction settles', async () => {
+    mockGetStatuses
+      .mockResolvedValueOnce({ success: true, data: [{ transactionId: 'tx1', status: 'PENDING' }] })
+      .mockResolvedValueOnce({ success: false, error: { code: 500, message: 'busy' } })
+      .mockResolvedValueOnce({ success: true, data: [{ transactionId: 'tx1', status: 'SUCCESS' }] });
+
+    const { results, timedOut } = await waitForTransactions('tok', ['tx1'], 10, 0);
+
+    expect(mockGetStatuses).toHaveBeenCalledTimes(3);
+    expect(mockGetStatuses).toHaveBeenCalledWith('tok', ['tx1']);
+    expect(timedOut).toBe(false);
+    expect(results[0].status).toBe('SUCCESS');
+  });
+
+  it('should time out when transactions stay pending', async () => {
+    mockGetStatuses.mockResolvedValue({ success: true, data: [{ transactionId: 'tx1', status: 'PENDING' }] });
+
+    const { timedOut } = await waitForTransactions('tok', ['tx1'], 0.05, 20);
+
+    expect(timedOut).toBe(true);
+  });
+});
+
+describe('waitAndExit', () => {
+  it('should exit non-zero when no transaction ID can be extracted', async () => {
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+    await expect(waitAndExit('tok', { status: 'ok' }, true)).rejects.toThrow('exit');
+
+    expect(exitSpy).toHaveBeenCalledWith(TX_EXIT_CODES.failed);
+    expect(errSpy.mock.calls.flat().join(' ')).toContain('No transaction ID returned');
+    expect(mockGetStatuses).not.toHaveBeenCalled();
+
+    errSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should print one combined { result, statuses } document in raw-JSON mode', async () => {
+    const { setRawJson } = await import('../src/formatters.js');
+    setRawJson(true);
+    mockGetStatuses.mockResolvedValue({ success: true, data: [{ transactionId: 'tx1', status: 'SUCCESS' }] });
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await waitAndExit('tok', { transactionId: 'tx1', status: 'submitted' }, '5');
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(logSpy.mock.calls[0][0] as string)).toEqual({
+      result: { transactionId: 'tx1', status: 'submitted' },
+      statuses: [{ transactionId: 'tx1', status: 'SUCCESS' }],
+    });
+    expect(printsWaitResult('5')).toBe(true);
+    expect(printsWaitResult(undefined)).toBe(false);
+
+    logSpy.mockRestore();
+    setRawJson(false);
+  });
+});
+
+describe('reportStatuses', () => {
+  it('should map outcomes to exit codes', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(reportStatuses([{ status: 'SUCCESS' }], false)).toBe(TX_EXIT_CODES.success);
+    expect(reportStatuses([{ status: 'SUCCESS' }, { status: 'FAILED' }], false)).toBe(TX_EXIT_CODES.failed);
+    expect(reportStatuses([{ status: 'PENDING' }], true)).toBe(TX_EXIT_CODES.timeout);
+    expect(reportStatuses([{ status: 'PENDING' }], false)).toBe(TX_EXIT_CODES.success);
+
+    logSpy.mockRestore();
+    errSpy.mockRestore();
+  });
+});
@@ -32,6 +32,9 @@ import {
   lookupToken,
   formatTokenLabel,
   validateAddress,
+  parseSlippage,
+  parseFee,
+  getChainId,
 } from '../src/utils.js';
 import { searchTokens } from '../src/api/tokens.js';
 
@@ -335,4 +338,49 @@ describe('utils', () => {
       expect(validateAddress('   ', 'solana')).toBe('Address is required');
     });
   });
+
+  describe('parseSlippage', () => {
+    it('should parse plain and percent-suffixed values', () => {
+      expect(parseSlippage('0.5')).toBe(0.5);
+      expect(parseSlippage('1.5%')).toBe(1.5);
+    });
+
+    it('should convert basis points to percent', () => {
+      expect(parseSlippage('50bps')).toBe(0.5);
+      expect(parseSlippage('100 BPS')).toBe(1);
+    });
+
+    it('should reject zero, negative, out-of-range and non-numeric values', () => {
+      expect(() => parseSlippage('0')).toThrow('Invalid slippage');
+      expect(() => parseSlippage('-1')).toThrow('Invalid slippage');
+      expect(() => parseSlippage('51')).toThrow('Invalid slippage');
+      expect(() => parseSlippage('abc')).toThrow('Invalid slippage');
+      expect(() => parseSlippage('')).toThrow('Invalid slippage');
+    });
+  });
+
+  describe('parseFee', () => {
+    it('should accept non-negative numbers', () => {
+      expect(parseFee('0', 'Tip')).toBe('0');
+      expect(parseFee(' 0.001 ', 'Tip')).toBe('0.001');
+    });
+
+    it('should reject negative or non-numeric values', () => {
+      expect(() => parseFee('-1', 'Tip')).toThrow('Tip must be a non-negative number.');
+      expect(() => parseFee('x', 'Priority fee')).toThrow('Priority fee must be a non-negative number.');
+    });
+  });
+
+  describe('getChainId', () => {
+    it('should resolve chain names and aliases to numeric IDs', () => {
+      expect(getChainId('base')).toBe(8453);
+      expect(getChainId('eth')).toBe(1);
+      expect(getChainId('solana')).toBe(101);
+    });
+
+    it('should return undefined for unknown chains', () => {
+      expect(getChainId('unknown')).toBeUndefined();
+      expect(getChainId(undefined)).toBeUndefined();
+    });
+  });
 });